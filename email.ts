@@ -1,8 +1,16 @@
 export * from './smtp/address.js';
+export * from './smtp/capabilities.js';
 export * from './smtp/client.js';
 export * from './smtp/connection.js';
+export * from './smtp/data.js';
 export * from './smtp/date.js';
 export * from './smtp/error.js';
+export * from './smtp/logger.js';
 export * from './smtp/message.js';
 export * from './smtp/mime.js';
+export * from './smtp/proxy.js';
 export * from './smtp/response.js';
+export * from './smtp/retry.js';
+export * from './smtp/sasl.js';
+export * from './smtp/tls.js';
+export * from './smtp/transcript.js';
@@ -1,3 +1,5 @@
+import { domainToASCII } from 'url';
+
 interface AddressToken {
 	type: 'operator' | 'text';
 	value: string;
@@ -235,3 +237,34 @@ export function addressparser(address?: string | string[]) {
 
 	return addresses;
 }
+
+/**
+ * Converts the domain of an e-mail address to its ASCII (punycode) form, for
+ * servers that do not support internationalized addresses
+ *
+ * Example:
+ *
+ *    "user@bücher.example"
+ *
+ * will be converted to
+ *
+ *    "user@xn--bcher-kva.example"
+ *
+ * @see https://tools.ietf.org/html/rfc5891
+ * @param {string} address e-mail address
+ * @return {string | null} the ASCII address, or null if the local part is not ASCII
+ */
+export function convertAddressToASCII(address: string) {
+	const index = address.lastIndexOf('@');
+	const local = index === -1 ? address : address.substring(0, index);
+	const domain = index === -1 ? '' : address.substring(index + 1);
+
+	if (/[\u0080-\uffff]/.test(local)) {
+		return null;
+	} else if (/[\u0080-\uffff]/.test(domain)) {
+		const ascii = domainToASCII(domain);
+		return ascii ? `${local}@${ascii}` : null;
+	} else {
+		return address;
+	}
+}
@@ -0,0 +1,102 @@
+/**
+ * the extensions listed in reply to EHLO, keyed by their lower case keyword, with their parameters if any
+ */
+export type SMTPExtensions = { [keyword: string]: string | boolean };
+
+export interface SMTPCapabilities {
+	/**
+	 * the SASL mechanisms advertised with AUTH, in upper case
+	 */
+	auth: string[];
+	/**
+	 * the message size limit advertised with SIZE, in bytes; 0 if the server has no fixed limit, or null if SIZE was not advertised
+	 * @see https://tools.ietf.org/html/rfc1870
+	 */
+	size: number | null;
+	/**
+	 * @see https://tools.ietf.org/html/rfc2920
+	 */
+	pipelining: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc3207
+	 */
+	starttls: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc6152
+	 */
+	eightBitMime: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc6531
+	 */
+	smtpUtf8: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc3030
+	 */
+	chunking: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc3030
+	 */
+	binaryMime: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc3461
+	 */
+	dsn: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc2034
+	 */
+	enhancedStatusCodes: boolean;
+	/**
+	 * @see https://tools.ietf.org/html/rfc8689
+	 */
+	requireTls: boolean;
+	/**
+	 * every extension the server listed
+	 */
+	extensions: SMTPExtensions;
+}
+
+/**
+ * @param {SMTPExtensions} extensions the extensions listed by the server
+ * @returns {SMTPCapabilities} the capabilities of the server
+ */
+export function parseCapabilities(
+	extensions: SMTPExtensions
+): SMTPCapabilities {
+	const has = (keyword: string) => extensions[keyword] !== undefined;
+	const auth = new Set<string>();
+
+	Object.keys(extensions).forEach((keyword) => {
+		const value = extensions[keyword];
+
+		// some servers also advertise the mechanisms in the old style, as `AUTH=LOGIN PLAIN`
+		const [, old] = keyword.match(/^auth=(.+)$/) ?? [];
+
+		if (keyword === 'auth' || old != null) {
+			[old ?? '', ...(typeof value === 'string' ? value.split(/\s+/) : [])]
+				.filter((mechanism) => mechanism.length > 0)
+				.forEach((mechanism) => auth.add(mechanism.toUpperCase()));
+		}
+	});
+
+	const size = extensions['size'];
+
+	return {
+		auth: Array.from(auth),
+		size:
+			size == null
+				? null
+				: typeof size === 'string' && isNaN(parseInt(size, 10)) === false
+				? parseInt(size, 10)
+				: 0,
+		pipelining: has('pipelining'),
+		starttls: has('starttls'),
+		eightBitMime: has('8bitmime'),
+		smtpUtf8: has('smtputf8'),
+		chunking: has('chunking'),
+		binaryMime: has('binarymime'),
+		dsn: has('dsn'),
+		enhancedStatusCodes: has('enhancedstatuscodes'),
+		requireTls: has('requiretls'),
+		extensions: { ...extensions },
+	};
+}
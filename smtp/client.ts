@@ -1,15 +1,106 @@
-import { addressparser } from './address.js';
-import type { MessageAttachment, MessageHeaders } from './message.js';
+import { EventEmitter } from 'events';
+
+import { addressparser, convertAddressToASCII } from './address.js';
+import type {
+	MessageAttachment,
+	MessageHeaders,
+	MessageStreamOptions,
+} from './message.js';
 import { Message } from './message.js';
 import type { SMTPConnectionOptions } from './connection.js';
 import { SMTPConnection, SMTPState } from './connection.js';
+import { SMTPDataEncoder } from './data.js';
+import { SMTPError, SMTPErrorStates } from './error.js';
+import type { SMTPRecipientStatus } from './error.js';
+import type { SMTPReply } from './response.js';
+import { retryDelay } from './retry.js';
+
+/**
+ * size of the chunks sent with BDAT
+ */
+const CHUNKSIZE = 65536 as const;
+
+/**
+ * the number of recipients a server must accept in one transaction
+ * @see https://tools.ietf.org/html/rfc5321#section-4.5.3.1.8
+ */
+const RECIPIENT_BATCH_SIZE = 100 as const;
+
+/**
+ * @see https://tools.ietf.org/html/rfc3461#section-4
+ * @param {string} text the text to encode
+ * @returns {string} the text, with characters that are not allowed in esmtp parameters encoded as `+XX`
+ */
+function encodeXtext(text: string) {
+	return Array.from(Buffer.from(text))
+		.map((byte) =>
+			byte < 0x21 || byte > 0x7e || byte === 0x2b || byte === 0x3d
+				? `+${byte.toString(16).toUpperCase().padStart(2, '0')}`
+				: String.fromCharCode(byte)
+		)
+		.join('');
+}
+
+/**
+ * @template T, U
+ * @param {T[]} items the items
+ * @param {function(T): Promise<U>} run runs the step for an item
+ * @returns {Promise<U[]>} the results of the steps, which run one after another
+ */
+function sequence<T, U>(items: T[], run: (item: T) => Promise<U>) {
+	return items.reduce(
+		(chain, item) =>
+			chain.then((results) => run(item).then((result) => [...results, result])),
+		Promise.resolve([] as U[])
+	);
+}
+
+/**
+ * @param {string} address the address of the recipient
+ * @param {'RCPT' | 'VRFY'} command the command that was sent for the recipient
+ * @param {SMTPReply | SMTPError} outcome the reply to the command, or the error it failed with
+ * @returns {SMTPRecipientVerification} the status of the recipient
+ */
+function recipientStatus(
+	address: string,
+	command: 'RCPT' | 'VRFY',
+	outcome: SMTPReply | SMTPError
+): SMTPRecipientVerification {
+	return outcome instanceof SMTPError
+		? {
+				address,
+				accepted: false,
+				command,
+				code: outcome.responseCode,
+				enhancedCode: outcome.enhancedCode,
+				message: outcome.responseText ?? outcome.message,
+		  }
+		: {
+				address,
+				accepted: true,
+				command,
+				code: outcome.code,
+				enhancedCode: outcome.enhancedCode,
+				message: outcome.lines
+					.map((line) =>
+						outcome.enhancedCode
+							? line.replace(outcome.enhancedCode, '').trim()
+							: line.trim()
+					)
+					.join('\n'),
+		  };
+}
 
+/**
+ * over lmtp, a message that was sent is also given the status of each recipient
+ */
 export type MessageCallback<T = Message | MessageHeaders> = <
 	U extends Error | null,
 	V extends U extends Error ? T : Message
 >(
 	err: U,
-	msg: V
+	msg: V,
+	recipients?: SMTPRecipientStatus[]
 ) => void;
 
 export interface MessageStack {
@@ -20,18 +111,104 @@ export interface MessageStack {
 	returnPath: string;
 	from: string;
 	to: ReturnType<typeof addressparser>;
+	recipients: string[];
 	cc: string[];
 	bcc: string[];
+	options: MessageStreamOptions;
+	/**
+	 * how many times the message was deferred, because the server asked to retry it later
+	 */
+	deferrals: number;
+}
+
+export interface SMTPRecipientVerification {
+	address: string;
+	/**
+	 * whether the server accepted the recipient
+	 */
+	accepted: boolean;
+	/**
+	 * the command whose reply decided the status
+	 */
+	command: 'RCPT' | 'VRFY';
+	/**
+	 * the reply code, e.g. `550`
+	 */
+	code: number | null;
+	/**
+	 * the enhanced status code, e.g. `5.1.1`
+	 */
+	enhancedCode: string | null;
+	/**
+	 * the text of the reply, without the codes
+	 */
+	message: string;
+}
+
+export interface SMTPVerifyOptions {
+	/**
+	 * the sender of each transaction, the null sender `<>` by default
+	 */
+	from: string;
+	/**
+	 * whether to ask with VRFY first, falling back to RCPT TO when the server will not tell
+	 */
+	vrfy: boolean;
+	/**
+	 * the most recipients to give in one transaction, 100 by default
+	 */
+	batchSize: number;
+}
+
+export interface SMTPClientEvents {
+	queued: (message: Message) => void;
+	sending: (message: Message) => void;
+	sent: (message: Message) => void;
+	failed: (err: Error, message: Message) => void;
+	/**
+	 * the server asked to retry the message later, so it will be queued again after the delay
+	 */
+	deferred: (message: Message, delay: number) => void;
+	/**
+	 * the connection was closed after a second without messages to send
+	 */
+	idle: () => void;
+	/**
+	 * every queued message was sent, or failed, and none is waiting to be retried
+	 */
+	drain: () => void;
 }
 
-export class SMTPClient {
+export interface SMTPClient {
+	on<E extends keyof SMTPClientEvents>(
+		event: E,
+		listener: SMTPClientEvents[E]
+	): this;
+	once<E extends keyof SMTPClientEvents>(
+		event: E,
+		listener: SMTPClientEvents[E]
+	): this;
+	off<E extends keyof SMTPClientEvents>(
+		event: E,
+		listener: SMTPClientEvents[E]
+	): this;
+	emit<E extends keyof SMTPClientEvents>(
+		event: E,
+		...args: Parameters<SMTPClientEvents[E]>
+	): boolean;
+}
+
+export class SMTPClient extends EventEmitter {
 	public readonly smtp: SMTPConnection;
 	public readonly queue: MessageStack[] = [];
 
 	protected sending = false;
 	protected ready = false;
+	protected deferred = 0;
 	protected timer: NodeJS.Timeout | null = null;
 
+	private readonly options: Partial<SMTPConnectionOptions>;
+
 	/**
 	 * Create a standard SMTP client backed by a self-managed SMTP connection.
 	 *
@@ -40,6 +217,8 @@ export class SMTPClient {
 	 * @param {SMTPConnectionOptions} server smtp options
 	 */
 	constructor(server: Partial<SMTPConnectionOptions>) {
+		super();
+		this.options = server;
 		this.smtp = new SMTPConnection(server);
 	}
 
@@ -74,6 +253,11 @@ export class SMTPClient {
 				return callback(new Error('No recipients found in message'), msg);
 			}
 			this.queue.push(stack);
+			this.smtp.log('debug', 'message queued', {
+				messageId: message.header['message-id'],
+				queued: this.queue.length,
+			});
+			this.emit('queued', message);
 			this._poll();
 		} else {
 			callback(new Error(validationError), msg);
@@ -100,6 +284,173 @@ export class SMTPClient {
 		});
 	}
 
+	/**
+	 * @public
+	 * @description checks whether the server would accept each address as a recipient, without sending a message.
+	 *
+	 * A connection of its own is opened, on which `MAIL FROM` and a `RCPT TO` for each address are sent
+	 * in transactions of at most `batchSize` recipients, each ended with `RSET` instead of `DATA`.
+	 * The addresses refused with `452` because the transaction had too many recipients are verified again in the next one,
+	 * which is no larger than the number the server accepted.
+	 *
+	 * @param {string[]} addresses the addresses to verify
+	 * @param {Partial<SMTPVerifyOptions>} [options={}] options
+	 * @returns {Promise<SMTPRecipientVerification[]>} a promise that resolves to the status of each address, in order
+	 */
+	public verifyRecipients(
+		addresses: string[],
+		options: Partial<SMTPVerifyOptions> = {}
+	) {
+		const from = `<${options.from ?? ''}>`;
+		const batchSize =
+			typeof options.batchSize === 'number' && options.batchSize >= 1
+				? Math.floor(options.batchSize)
+				: RECIPIENT_BATCH_SIZE;
+		let vrfy = options.vrfy === true;
+
+		const connection = new SMTPConnection(this.options);
+		const unique = Array.from(new Set(addresses));
+		const statuses = new Map<string, SMTPRecipientVerification>();
+
+		/**
+		 * @param {string} address the address to verify
+		 * @param {'RCPT' | 'VRFY'} command the command that was sent
+		 * @param {Error} err the error the command failed with
+		 * @returns {SMTPRecipientVerification} the status, if the server replied
+		 */
+		const rejected = (
+			address: string,
+			command: 'RCPT' | 'VRFY',
+			err: Error
+		) => {
+			if (err instanceof SMTPError && err.responseCode != null) {
+				return recipientStatus(address, command, err);
+			} else {
+				throw err;
+			}
+		};
+
+		/**
+		 * @see https://tools.ietf.org/html/rfc5321#section-3.5.3
+		 * @param {string} address the address to verify
+		 * @returns {Promise<SMTPRecipientVerification | null>} the status, unless the server would not tell
+		 */
+		const ask = (address: string) =>
+			vrfy === false
+				? Promise.resolve(null)
+				: connection.verifyAsync(address).then(
+						(reply) =>
+							reply.code === 252
+								? null
+								: recipientStatus(address, 'VRFY', reply),
+						(err: Error) => {
+							const status = rejected(address, 'VRFY', err);
+							if (status.code === 550 || status.code === 551) {
+								return status;
+							} else if ((status.code ?? 0) >= 500) {
+								// the server does not support VRFY, so stop asking
+								vrfy = false;
+							}
+							return null;
+						}
+				  );
+
+		/**
+		 * @param {string} address the address to verify
+		 * @returns {Promise<SMTPRecipientVerification>} the status
+		 */
+		const rcpt = (address: string) =>
+			connection.rcptAsync(`<${address}>`).then(
+				(reply) => recipientStatus(address, 'RCPT', reply),
+				(err: Error) => rejected(address, 'RCPT', err)
+			);
+
+		/**
+		 * @param {string[]} batch the addresses to verify in one transaction
+		 * @returns {Promise<SMTPRecipientVerification[]>} the status of each address
+		 */
+		const transaction = (batch: string[]) => {
+			const results = connection.capabilities()?.pipelining
+				? new Promise<SMTPRecipientVerification[]>((resolve, reject) =>
+						connection.pipeline(() => {
+							Promise.all([
+								connection.mailAsync(from),
+								Promise.all(batch.map(rcpt)),
+							]).then(([, results]) => resolve(results), reject);
+						})
+				  )
+				: connection.mailAsync(from).then(() => sequence(batch, rcpt));
+
+			return results.then((results) =>
+				connection.rsetAsync().then(() => results)
+			);
+		};
+
+		/**
+		 * @see https://tools.ietf.org/html/rfc5321#section-4.5.3.1.10
+		 * @param {string[]} remaining the addresses still to verify
+		 * @param {number} size the most recipients to give in one transaction
+		 * @returns {Promise<void>} a promise that resolves once every address has a status
+		 */
+		const verify = (remaining: string[], size: number): Promise<void> =>
+			remaining.length === 0
+				? Promise.resolve()
+				: transaction(remaining.slice(0, size)).then((results) => {
+						// the server had too many recipients, so those it refused are given again in a transaction
+						// of no more than it accepted, unless it accepted none and they would never be given
+						const accepted = results.filter((status) => status.accepted).length;
+						const refused = results.filter(
+							(status) => status.code === 452 && accepted > 0
+						);
+
+						results.forEach((status) => {
+							if (refused.includes(status) === false) {
+								statuses.set(status.address, status);
+							}
+						});
+
+						return verify(
+							[
+								...refused.map(({ address }) => address),
+								...remaining.slice(size),
+							],
+							refused.length > 0 ? Math.min(size, accepted) : size
+						);
+				  });
+
+		return connection
+			.connectAsync()
+			.then(() =>
+				connection.authorized()
+					? connection.ehloAsync()
+					: connection.loginAsync()
+			)
+			.then(() => sequence(unique, ask))
+			.then((asked) => {
+				asked.forEach((status) => {
+					if (status != null) {
+						statuses.set(status.address, status);
+					}
+				});
+
+				return verify(
+					unique.filter((address) => !statuses.has(address)),
+					batchSize
+				);
+			})
+			.then(() => connection.quitAsync())
+			.then(
+				() =>
+					addresses.map(
+						(address) => statuses.get(address) as SMTPRecipientVerification
+					),
+				(err: Error) => {
+					connection.close(true);
+					throw err;
+				}
+			);
+	}
+
 	/**
 	 * @public
 	 * @description Converts a message to the raw object used by the internal stack.
@@ -117,8 +468,10 @@ export class SMTPClient {
 		const stack = {
 			message,
 			to: [] as ReturnType<typeof addressparser>,
+			recipients: [] as string[],
 			from,
 			callback: callback.bind(this),
+			deferrals: 0,
 		} as MessageStack;
 
 		const {
@@ -178,8 +531,18 @@ export class SMTPClient {
 		}
 		// wait around 1 seconds in case something does come in,
 		// otherwise close out SMTP connection if still open
-		else if (this.smtp.state() == SMTPState.CONNECTED) {
-			this.timer = setTimeout(() => this.smtp.quit(), 1000);
+		else {
+			if (this.deferred === 0) {
+				this.emit('drain');
+			}
+
+			if (this.smtp.state() == SMTPState.CONNECTED) {
+				this.timer = setTimeout(() => {
+					this.smtp.log('debug', 'queue is empty, quitting');
+					this.smtp.quit();
+					this.emit('idle');
+				}, 1000);
+			}
 		}
 	}
 
@@ -189,18 +552,33 @@ export class SMTPClient {
 	 * @returns {void}
 	 */
 	protected _connect(stack: MessageStack) {
+		let refresh = false;
+
 		/**
 		 * @param {Error} err callback error
 		 * @returns {void}
 		 */
-		const connect = (err: Error) => {
+		const connect = (err: Error | null) => {
 			if (!err) {
-				const begin = (err: Error) => {
+				const begin = (err: Error | null) => {
 					if (!err) {
 						this.ready = true;
 						this._poll();
+					} else if (
+						refresh === false &&
+						this.smtp.credentials != null &&
+						err instanceof SMTPError &&
+						err.code === SMTPErrorStates.AUTHFAILED
+					) {
+						// the provided credentials may have expired, so log in once more with fresh ones
+						refresh = true;
+						this.smtp.log(
+							'info',
+							'logging in again with refreshed credentials'
+						);
+						this.smtp.connect(connect);
 					} else {
-						stack.callback(err, stack.message);
+						this._sendfailed(err, stack);
 
 						// clear out the queue so all callbacks can be called with the same error message
 						this.queue.shift();
@@ -209,12 +587,12 @@ export class SMTPClient {
 				};
 
 				if (!this.smtp.authorized()) {
-					this.smtp.login(begin);
+					this.smtp.login(begin, undefined, undefined, { refresh });
 				} else {
 					this.smtp.ehlo_or_helo_if_needed(begin);
 				}
 			} else {
-				stack.callback(err, stack.message);
+				this._sendfailed(err, stack);
 
 				// clear out the queue so all callbacks can be called with the same error message
 				this.queue.shift();
@@ -280,7 +658,7 @@ export class SMTPClient {
 		 * @param {Error} [err] error
 		 * @returns {void}
 		 */
-		return (err: Error) => {
+		return (err: Error | null) => {
 			if (!err && next) {
 				next.apply(this, [stack]);
 			} else {
@@ -297,69 +675,543 @@ export class SMTPClient {
 	 * @returns {void}
 	 */
 	protected _sendmail(stack: MessageStack) {
-		const from = stack.returnPath || stack.from;
 		this.sending = true;
-		this.smtp.mail(this._sendsmtp(stack, this._sendrcpt), '<' + from + '>');
+		this.smtp.log('info', 'sending message', {
+			messageId: stack.message.header['message-id'],
+			recipients: stack.to.length,
+		});
+		this.emit('sending', stack.message);
+
+		const error = this._encode(stack);
+		if (error) {
+			this._senddone(error, stack);
+			return;
+		}
+
+		const limit = this.smtp.size_limit();
+		const params: string[] = [];
+
+		if (stack.options.utf8) {
+			params.push('SMTPUTF8');
+		}
+
+		if (stack.message.dsn != null && this.smtp.capabilities()?.dsn) {
+			const { ret, envid } = stack.message.dsn;
+			if (ret) {
+				params.push(`RET=${ret}`);
+			}
+			if (envid) {
+				params.push(`ENVID=${encodeXtext(envid)}`);
+			}
+		}
+
+		if (stack.options.binary) {
+			params.push('BODY=BINARYMIME');
+		} else if (
+			stack.options.eightBit &&
+			(stack.options.utf8 || /[\u0080-\uffff]/.test(stack.message.text ?? ''))
+		) {
+			params.push('BODY=8BITMIME');
+		}
+
+		// stream attachments can only be read once, so those messages are sent without a declared size
+		if (limit == null || this._containsStream(stack.message)) {
+			this._sendfrom(stack, params);
+			return;
+		}
+
+		this._measure(stack, (err, size) => {
+			if (err) {
+				this._senddone(err, stack);
+			} else if (limit > 0 && size > limit) {
+				this._senddone(
+					SMTPError.create(
+						`message size of ${size} bytes exceeds the server limit of ${limit} bytes`,
+						SMTPErrorStates.MESSAGETOOLARGE
+					),
+					stack
+				);
+			} else {
+				this._sendfrom(stack, [`SIZE=${size}`, ...params]);
+			}
+		});
+	}
+
+	/**
+	 * @protected
+	 * @description Sends MAIL FROM followed by every RCPT TO.
+	 *
+	 * When the server supports PIPELINING, the whole envelope is written in one batch
+	 * rather than waiting a round trip per recipient. RFC 2920 allows DATA to end the batch, but it waits for those replies:
+	 * a rejected recipient fails the message, which could only be abandoned by closing the connection once DATA is accepted.
+	 *
+	 * @see https://tools.ietf.org/html/rfc2920#section-3.1
+	 *
+	 * @param {MessageStack} stack stack
+	 * @param {string[]} params esmtp parameters for the MAIL FROM command
+	 * @returns {void}
+	 */
+	protected _sendfrom(stack: MessageStack, params: string[]) {
+		const from = `<${stack.returnPath || stack.from}>`;
+		stack.recipients = stack.to.map(({ address }) => address as string);
+
+		if (this.smtp.capabilities()?.pipelining !== true) {
+			this.smtp.mail(this._sendsmtp(stack, this._sendrcpt), from, params);
+			return;
+		}
+
+		let pending = stack.to.length + 1;
+		let error: Error | null = null;
+
+		/**
+		 * @param {?Error} err the error for this command, if any
+		 * @returns {void}
+		 */
+		const reply = (err: Error | null) => {
+			// report the first command that failed, which is the cause of any later failures
+			error = error ?? err ?? null;
+			pending--;
+
+			if (pending === 0) {
+				this._sendsmtp(stack, this._senddata)(error);
+			}
+		};
+
+		this.smtp.pipeline(() => {
+			this.smtp.mail(reply, from, params);
+			stack.to.forEach(({ address }) =>
+				this.smtp.rcpt(
+					reply,
+					`<${address}>`,
+					this._rcptparams(stack, address as string)
+				)
+			);
+		});
+	}
+
+	/**
+	 * @protected
+	 * @description Chooses how the message is encoded for the connected server.
+	 *
+	 * Internationalized envelope addresses are sent as-is when the server supports SMTPUTF8;
+	 * otherwise their domains are converted to punycode, which fails if a local part is not ASCII.
+	 *
+	 * @see https://tools.ietf.org/html/rfc6531
+	 * @param {MessageStack} stack stack
+	 * @returns {SMTPError | null} an error if the envelope can't be sent to this server
+	 */
+	protected _encode(stack: MessageStack) {
+		const addresses = [
+			stack.from,
+			stack.returnPath,
+			...stack.to.map(({ address }) => address),
+		].filter((address): address is string => typeof address === 'string');
+		const international = addresses.some(
+			(address) => convertAddressToASCII(address) !== address
+		);
+
+		const capabilities = this.smtp.capabilities();
+		stack.options = {
+			utf8: international && capabilities?.smtpUtf8 === true,
+			eightBit: capabilities?.eightBitMime === true,
+			binary: this._chunking() && capabilities?.binaryMime === true,
+		};
+
+		if (international === false || stack.options.utf8) {
+			return null;
+		}
+
+		const invalid = addresses.find(
+			(address) => convertAddressToASCII(address) == null
+		);
+		if (invalid != null) {
+			return SMTPError.create(
+				`address ${invalid} requires SMTPUTF8, which the server does not support`,
+				SMTPErrorStates.UTF8NOTSUPPORTED
+			);
+		}
+
+		stack.from = convertAddressToASCII(stack.from) as string;
+		if (stack.returnPath) {
+			stack.returnPath = convertAddressToASCII(stack.returnPath) as string;
+		}
+		stack.to = stack.to.map((to) =>
+			to.address
+				? { ...to, address: convertAddressToASCII(to.address) as string }
+				: to
+		);
+
+		return null;
+	}
+
+	/**
+	 * @protected
+	 * @param {MessageStack} stack stack
+	 * @param {function(?Error, number): void} callback receives the size of the message in bytes, as it will be sent
+	 * @returns {void}
+	 */
+	protected _measure(
+		stack: MessageStack,
+		callback: (err: Error | null, size: number) => void
+	) {
+		let size = 0;
+		let measured = false;
+		const stream = stack.message.stream(stack.options);
+
+		/**
+		 * @param {?Error} err the error the message or its encoding failed with, if any
+		 * @returns {void}
+		 */
+		const done = (err: Error | null) => {
+			if (measured === false) {
+				measured = true;
+				callback(err, size);
+			}
+		};
+
+		// a message sent with DATA grows with its line endings and dot-stuffing, so it is measured once encoded
+		const encoded = this._chunking()
+			? stream
+			: stream.pipe(new SMTPDataEncoder({ longLines: this.options.longLines }));
+
+		encoded.on('data', (data) => (size += Buffer.byteLength(data)));
+		encoded.on('end', () => done(null));
+		encoded.on('error', done);
+		stream.on('error', done);
+	}
+
+	/**
+	 * @protected
+	 * @param {Message} message message
+	 * @returns {boolean} whether the message has an attachment backed by a stream
+	 */
+	protected _containsStream(message: Message) {
+		const isStream = (attachment?: MessageAttachment | null): boolean =>
+			attachment != null &&
+			(attachment.stream != null || (attachment.related ?? []).some(isStream));
+
+		return message.attachments.some(isStream) || isStream(message.alternative);
 	}
 
 	/**
 	 * @protected
+	 * @description Sends RCPT TO for a recipient, then for each one after it.
+	 *
+	 * `stack.to` is left as it is, so a message that is deferred is sent to every recipient again.
+	 *
 	 * @param {MessageStack} stack stack
+	 * @param {number} [index=0] the index of the recipient in `stack.to`
 	 * @returns {void}
 	 */
-	protected _sendrcpt(stack: MessageStack) {
+	protected _sendrcpt(stack: MessageStack, index = 0) {
 		if (stack.to == null || typeof stack.to === 'string') {
 			throw new TypeError('stack.to must be array');
 		}
 
-		const to = stack.to.shift()?.address;
+		const to = stack.to[index]?.address;
 		this.smtp.rcpt(
-			this._sendsmtp(stack, stack.to.length ? this._sendrcpt : this._senddata),
-			`<${to}>`
+			this._sendsmtp(
+				stack,
+				index + 1 < stack.to.length
+					? () => this._sendrcpt(stack, index + 1)
+					: this._senddata
+			),
+			`<${to}>`,
+			this._rcptparams(stack, to as string)
 		);
 	}
 
+	/**
+	 * @protected
+	 * @description Builds the delivery status notification parameters for a recipient, if the message requests them and the server supports DSN.
+	 * @see https://tools.ietf.org/html/rfc3461#section-4
+	 * @param {MessageStack} stack stack
+	 * @param {string} address the recipient address
+	 * @returns {string[]} the esmtp parameters for the RCPT TO command
+	 */
+	protected _rcptparams(stack: MessageStack, address: string) {
+		const params: string[] = [];
+
+		if (stack.message.dsn != null && this.smtp.capabilities()?.dsn) {
+			const { notify, orcpt } = stack.message.dsn;
+			if (notify) {
+				params.push(
+					`NOTIFY=${Array.isArray(notify) ? notify.join(',') : notify}`
+				);
+			}
+			if (orcpt) {
+				params.push(`ORCPT=rfc822;${encodeXtext(address)}`);
+			}
+		}
+
+		return params;
+	}
+
 	/**
 	 * @protected
 	 * @param {MessageStack} stack stack
 	 * @returns {void}
 	 */
 	protected _senddata(stack: MessageStack) {
-		this.smtp.data(this._sendsmtp(stack, this._sendmessage));
+		if (this._chunking()) {
+			this._sendchunks(stack);
+		} else {
+			this.smtp.data(this._sendsmtp(stack, this._sendmessage));
+		}
+	}
+
+	/**
+	 * @protected
+	 * @description whether the message is sent with BDAT instead of DATA, which BODY=BINARYMIME requires.
+	 *
+	 * An lmtp server replies to the end of DATA once per recipient, which BDAT does not support here.
+	 *
+	 * @see https://tools.ietf.org/html/rfc3030#section-3
+	 * @returns {boolean} whether the server supports CHUNKING, and is not an lmtp server
+	 */
+	protected _chunking() {
+		return (
+			this.smtp.capabilities()?.chunking === true && this.smtp.lmtp === false
+		);
 	}
 
 	/**
 	 * @protected
+	 * @description Sends the message in BDAT chunks instead of DATA, which avoids dot-stuffing and allows binary attachments.
+	 * @see https://tools.ietf.org/html/rfc3030
 	 * @param {MessageStack} stack stack
 	 * @returns {void}
 	 */
-	protected _sendmessage(stack: MessageStack) {
-		const stream = stack.message.stream();
+	protected _sendchunks(stack: MessageStack) {
+		const stream = stack.message.stream(stack.options);
+		const chunks: Buffer[] = [];
+		let size = 0;
+		let inflight = false;
+		let ended = false;
+		let failed = false;
+		let paused = false;
 
-		stream.on('data', (data) => this.smtp.message(data));
-		stream.on('end', () => {
-			this.smtp.data_end(
-				this._sendsmtp(stack, () => this._senddone(null, stack))
+		/**
+		 * @param {boolean} last whether this is the final chunk of the message
+		 * @returns {void}
+		 */
+		const send = (last: boolean) => {
+			const chunk = Buffer.concat(chunks.splice(0), size);
+			size = 0;
+			inflight = true;
+
+			this.smtp.bdat(
+				(err: Error | null) => {
+					inflight = false;
+					failed = err != null;
+
+					if (err || last) {
+						this._sendsmtp(stack, () => this._senddone(null, stack))(err);
+					} else {
+						flush();
+						read();
+					}
+				},
+				chunk,
+				last
 			);
+		};
+
+		/**
+		 * @returns {void}
+		 */
+		const flush = () => {
+			if (inflight || failed) {
+				return;
+			} else if (ended) {
+				send(true);
+			} else if (size >= CHUNKSIZE) {
+				send(false);
+			}
+		};
+
+		/**
+		 * @returns {void}
+		 */
+		const read = () => {
+			if (paused && inflight === false && size < CHUNKSIZE) {
+				paused = false;
+				stream.resume();
+			}
+		};
+
+		// read no more of the message than a chunk, while the last one is with the server
+		stream.on('data', (data: string | Buffer) => {
+			const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+			chunks.push(buffer);
+			size += buffer.length;
+			flush();
+
+			if (paused === false && (inflight || size >= CHUNKSIZE)) {
+				paused = true;
+				stream.pause();
+			}
+		});
+		stream.on('end', () => {
+			ended = true;
+			flush();
 		});
 
-		// there is no way to cancel a message while in the DATA portion,
-		// so we have to close the socket to prevent a bad email from going out
+		// a chunk may already be with the server, so close the socket to prevent a bad email from going out
 		stream.on('error', (err) => {
+			failed = true;
 			this.smtp.close();
 			this._senddone(err, stack);
 		});
 	}
 
+	/**
+	 * @protected
+	 * @param {MessageStack} stack stack
+	 * @returns {void}
+	 */
+	protected _sendmessage(stack: MessageStack) {
+		const stream = stack.message.stream(stack.options);
+		const encoder = this.smtp.data_stream();
+		let failed = false;
+		let paused = false;
+
+		/**
+		 * @param {Error} err the error the message or its encoding failed with
+		 * @returns {void}
+		 */
+		const fail = (err: Error) => {
+			if (failed === false) {
+				failed = true;
+				// there is no way to cancel a message while in the DATA portion,
+				// so we have to close the socket to prevent a bad email from going out
+				this.smtp.close();
+				this._senddone(err, stack);
+			}
+		};
+
+		// read no more of the message than the socket is ready to send
+		stream.on('data', (data) => {
+			if (failed || encoder.write(data) || paused) {
+				return;
+			}
+
+			paused = true;
+			stream.pause();
+			encoder.once('drain', () => {
+				paused = false;
+				stream.resume();
+			});
+		});
+		stream.on('end', () => {
+			if (failed === false) {
+				encoder.end();
+			}
+		});
+		stream.on('error', fail);
+
+		encoder.on('end', () => {
+			this.smtp.data_end(
+				(err, _data, _message, _reply, recipients) =>
+					this._sendsmtp(stack, () => this._senddone(null, stack, recipients))(
+						err
+					),
+				stack.recipients
+			);
+		});
+		encoder.on('error', fail);
+	}
+
 	/**
 	 * @protected
 	 * @param {Error} err err
 	 * @param {MessageStack} stack stack
+	 * @param {SMTPRecipientStatus[]} [recipients] the status of each recipient, reported by an lmtp server
 	 * @returns {void}
 	 */
-	protected _senddone(err: Error | null, stack: MessageStack) {
+	protected _senddone(
+		err: Error | null,
+		stack: MessageStack,
+		recipients?: SMTPRecipientStatus[]
+	) {
 		this.sending = false;
-		stack.callback(err, stack.message);
+		if (
+			err instanceof SMTPError &&
+			err.code === SMTPErrorStates.RETRYLATER &&
+			this._defer(stack)
+		) {
+			// hang up instead of holding the connection open, and connect again for the rest of the queue
+			this.ready = false;
+			this.smtp.quit(() => this._poll());
+			return;
+		} else if (err) {
+			this._sendfailed(err, stack);
+		} else {
+			this.smtp.log('info', 'message sent', {
+				messageId: stack.message.header['message-id'],
+			});
+			this.emit('sent', stack.message);
+			stack.callback(err, stack.message, recipients);
+		}
 		this._poll();
 	}
+
+	/**
+	 * @protected
+	 * @param {MessageStack} stack stack
+	 * @returns {boolean} whether the message was deferred, which it is until the retry policy runs out of attempts
+	 */
+	protected _defer(stack: MessageStack) {
+		const policy = this.smtp.retryPolicy;
+		if (stack.deferrals + 1 >= policy.maxAttempts) {
+			return false;
+		}
+
+		stack.deferrals++;
+		const delay = retryDelay(policy, stack.deferrals);
+		this.smtp.log('info', 'message deferred', {
+			messageId: stack.message.header['message-id'],
+			delay,
+		});
+		this.emit('deferred', stack.message, delay);
+
+		this.deferred++;
+		setTimeout(() => {
+			this.deferred--;
+			this.queue.push(stack);
+			this._poll();
+		}, delay);
+
+		return true;
+	}
+
+	/**
+	 * @protected
+	 * @param {Error} err err
+	 * @param {MessageStack} stack stack
+	 * @returns {void}
+	 */
+	protected _sendfailed(err: Error, stack: MessageStack) {
+		this.smtp.log('warn', 'message failed', {
+			messageId: stack.message.header['message-id'],
+			error: err.message,
+			...(err instanceof SMTPError &&
+				err.command != null && { command: err.command }),
+		});
+		const error = this._withTranscript(err);
+		this.emit('failed', error, stack.message);
+		stack.callback(error, stack.message);
+	}
+
+	/**
+	 * @protected
+	 * @param {Error} err err
+	 * @returns {Error} the error, with the transcript of the connection attached if it is recorded
+	 */
+	protected _withTranscript(err: Error) {
+		if (err instanceof SMTPError && err.transcript == null) {
+			err.transcript = this.smtp.transcript();
+		}
+		return err;
+	}
 }
@@ -1,12 +1,35 @@
-import { createHmac } from 'crypto';
+import { randomBytes } from 'crypto';
 import { EventEmitter } from 'events';
 import { Socket } from 'net';
 import { hostname } from 'os';
-import { connect, createSecureContext, TLSSocket } from 'tls';
+import type { Duplex } from 'stream';
+import { connect, TLSSocket } from 'tls';
 import type { ConnectionOptions } from 'tls';
 
+import { parseCapabilities } from './capabilities.js';
+import type { SMTPCapabilities, SMTPExtensions } from './capabilities.js';
+import { SMTPDataEncoder } from './data.js';
+import type { SMTPLongLines } from './data.js';
 import { SMTPError, SMTPErrorStates } from './error.js';
+import type { SMTPRecipientStatus } from './error.js';
+import {
+	adaptFunctionLogger,
+	createConsoleLogger,
+	SMTP_LOG_LEVELS,
+} from './logger.js';
+import type { SMTPLogFields, SMTPLogger, SMTPLogLevel } from './logger.js';
+import { createProxyTunnel, parseProxy } from './proxy.js';
+import type { SMTPProxyOptions } from './proxy.js';
 import { SMTPResponseMonitor } from './response.js';
+import type { SMTPReply } from './response.js';
+import { createRetryPolicy, matchesRetry, retryDelay } from './retry.js';
+import type { SMTPRetryPolicy } from './retry.js';
+import { getSASLMechanism } from './sasl.js';
+import type { SASLMechanism, SASLSession } from './sasl.js';
+import { describeTLS, matchesPin } from './tls.js';
+import type { SMTPTLSInfo } from './tls.js';
+import { redactCommand, SMTPTranscript } from './transcript.js';
+import type { SMTPTranscriptOptions } from './transcript.js';
 
 /**
  * @readonly
@@ -17,6 +40,9 @@ export const AUTH_METHODS = {
 	'CRAM-MD5': 'CRAM-MD5',
 	LOGIN: 'LOGIN',
 	XOAUTH2: 'XOAUTH2',
+	'SCRAM-SHA-1': 'SCRAM-SHA-1',
+	'SCRAM-SHA-256': 'SCRAM-SHA-256',
+	OAUTHBEARER: 'OAUTHBEARER',
 } as const;
 
 /**
@@ -35,27 +61,6 @@ const SMTP_PORT = 25 as const;
 const SMTP_SSL_PORT = 465 as const;
 const SMTP_TLS_PORT = 587 as const;
 const CRLF = '\r\n' as const;
-const GREYLIST_DELAY = 300 as const;
-
-let DEBUG: 0 | 1 = 0;
-
-/**
- * @param {...any[]} args the message(s) to log
- * @returns {void}
- */
-const log = (...args: any[]) => {
-	if (DEBUG === 1) {
-		args.forEach((d) =>
-			console.log(
-				typeof d === 'object'
-					? d instanceof Error
-						? d.message
-						: JSON.stringify(d)
-					: d
-			)
-		);
-	}
-};
 
 /**
  * @param {function(...any[]): void} callback the function to call
@@ -68,11 +73,90 @@ const caller = (callback?: (...rest: any[]) => void, ...args: any[]) => {
 	}
 };
 
+/**
+ * @param {function(SMTPReplyCallback): void} issue issues a command, passing on the callback
+ * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+ */
+const awaitReply = (issue: (callback: SMTPReplyCallback) => void) =>
+	new Promise<SMTPReply>((resolve, reject) => {
+		issue((err, _data, _message, reply) => {
+			if (err != null) {
+				reject(err);
+			} else {
+				// only the reply of a command that was answered is passed on
+				resolve(reply as SMTPReply);
+			}
+		});
+	});
+
 export type SMTPSocketOptions = Omit<
 	ConnectionOptions,
 	'port' | 'host' | 'path' | 'socket' | 'timeout' | 'secureContext'
 >;
 
+export interface SMTPCredentials {
+	user: string;
+	password: string;
+}
+
+/**
+ * called before each login; `refresh` is true when the server rejected the credentials it last provided
+ */
+export type SMTPCredentialsProvider = (options: {
+	refresh: boolean;
+}) => Promise<SMTPCredentials>;
+
+export interface SMTPSocketFactoryOptions {
+	host: string;
+	port: number;
+	path: string | null;
+	localAddress: string | null;
+	family: 4 | 6 | null;
+}
+
+/**
+ * opens the stream the connection talks to the server over, instead of a tcp or unix socket
+ */
+export type SMTPSocketFactory = (options: SMTPSocketFactoryOptions) => Duplex;
+
+/**
+ * when to upgrade a plaintext connection with STARTTLS
+ *
+ * - `require`: always upgrade, and fail if the server does not offer STARTTLS
+ * - `opportunistic`: upgrade whenever the server offers STARTTLS
+ * - `none`: never upgrade
+ */
+export type SMTPTLSPolicy = 'require' | 'opportunistic' | 'none';
+
+/**
+ * called with the error, or with the text, the message and the parsed form of the reply
+ */
+export type SMTPReplyCallback = (
+	err: Error | null,
+	data?: string,
+	message?: string,
+	reply?: SMTPReply
+) => void;
+
+/**
+ * called with the error, or with the parsed reply of the server
+ */
+export type SMTPResponseCallback = (
+	err: Error | null,
+	reply?: SMTPReply
+) => void;
+
+/**
+ * called like an `SMTPReplyCallback` once the message is sent; over lmtp, with the last reply and the status of each recipient
+ */
+export type SMTPDataEndCallback = (
+	err: Error | null,
+	data?: string,
+	message?: string,
+	reply?: SMTPReply,
+	recipients?: SMTPRecipientStatus[]
+) => void;
+
 export interface SMTPConnectionOptions {
 	timeout: number | null;
 	user: string;
@@ -80,26 +164,98 @@ export interface SMTPConnectionOptions {
 	domain: string;
 	host: string;
 	port: number;
+	path: string;
+	localAddress: string;
+	family: 4 | 6;
+	socketFactory: SMTPSocketFactory;
+	proxy: string | SMTPProxyOptions;
+	lmtp: boolean;
 	ssl: boolean | SMTPSocketOptions;
 	tls: boolean | SMTPSocketOptions;
-	authentication: (keyof typeof AUTH_METHODS)[];
-	logger: (...args: any[]) => void;
+	tlsPolicy: SMTPTLSPolicy;
+	pins: string[];
+	retry: Partial<SMTPRetryPolicy>;
+	longLines: SMTPLongLines;
+	transcript: boolean | Partial<SMTPTranscriptOptions>;
+	authentication: string[];
+	credentials: SMTPCredentialsProvider;
+	logger: SMTPLogger | ((...args: any[]) => void);
+	logLevel: SMTPLogLevel;
 }
 
 export interface ConnectOptions {
 	ssl?: boolean;
 }
 
+export interface SMTPConnectionEvents {
+	/**
+	 * the server greeted the connection
+	 */
+	connect: (greeting: string) => void;
+	/**
+	 * the connection was encrypted, with ssl or starttls
+	 */
+	secure: (info: SMTPTLSInfo) => void;
+	/**
+	 * the server listed its extensions
+	 */
+	ehlo: (features: SMTPExtensions) => void;
+	authenticated: (details: { user: string; mechanism: string }) => void;
+	/**
+	 * a command was sent, with any credentials redacted
+	 */
+	command: (line: string) => void;
+	reply: (reply: SMTPReply) => void;
+	close: () => void;
+	/**
+	 * the connection failed; only emitted while there are listeners, so it never throws
+	 */
+	error: (err: Error) => void;
+}
+
+export interface SMTPConnection {
+	on<E extends keyof SMTPConnectionEvents>(
+		event: E,
+		listener: SMTPConnectionEvents[E]
+	): this;
+	once<E extends keyof SMTPConnectionEvents>(
+		event: E,
+		listener: SMTPConnectionEvents[E]
+	): this;
+	off<E extends keyof SMTPConnectionEvents>(
+		event: E,
+		listener: SMTPConnectionEvents[E]
+	): this;
+	emit<E extends keyof SMTPConnectionEvents>(
+		event: E,
+		...args: Parameters<SMTPConnectionEvents[E]>
+	): boolean;
+}
+
 export class SMTPConnection extends EventEmitter {
 	public readonly user: () => string;
 	public readonly password: () => string;
+	public readonly credentials: SMTPCredentialsProvider | null = null;
 	public readonly timeout: number = DEFAULT_TIMEOUT;
+	public readonly lmtp: boolean = false;
+	public readonly tlsPolicy: SMTPTLSPolicy;
+	public readonly retryPolicy: SMTPRetryPolicy;
 
-	protected readonly log = log;
-	protected readonly authentication: (keyof typeof AUTH_METHODS)[] = [
+	/**
+	 * prints entries when debugging is turned on without a logger
+	 */
+	protected readonly consoleLogger = createConsoleLogger();
+	protected logger: SMTPLogger | null = null;
+	protected logLevel: SMTPLogLevel = 'trace';
+	protected connectionId: string | null = null;
+	protected redacting = false;
+	protected readonly authentication: string[] = [
+		AUTH_METHODS['SCRAM-SHA-256'],
+		AUTH_METHODS['SCRAM-SHA-1'],
 		AUTH_METHODS['CRAM-MD5'],
 		AUTH_METHODS.LOGIN,
 		AUTH_METHODS.PLAIN,
+		AUTH_METHODS.OAUTHBEARER,
 		AUTH_METHODS.XOAUTH2,
 	];
 
@@ -108,15 +264,49 @@ export class SMTPConnection extends EventEmitter {
 	protected loggedin = false;
 
 	protected sock: Socket | TLSSocket | null = null;
-	protected features: { [index: string]: string | boolean } | null = null;
+	protected features: SMTPExtensions | null = null;
 	protected monitor: SMTPResponseMonitor | null = null;
 	protected domain = hostname();
 	protected host = 'localhost';
 	protected ssl: boolean | SMTPSocketOptions = false;
 	protected tls: boolean | SMTPSocketOptions = false;
 	protected port: number;
+	protected path: string | null = null;
+	protected localAddress: string | null = null;
+	protected family: 4 | 6 | null = null;
+	protected socketFactory: SMTPSocketFactory | null = null;
+	protected proxy: SMTPProxyOptions | null = null;
+	protected pins: string[] = [];
+	protected longLines: SMTPLongLines = 'wrap';
+	protected transcriptOptions: Partial<SMTPTranscriptOptions> | null = null;
+	protected recorder: SMTPTranscript | null = null;
 
-	private greylistResponseTracker = new WeakSet<(...rest: any[]) => void>();
+	/**
+	 * replies arrive in the order their commands were written, so each one goes to the oldest waiting handler
+	 */
+	private responseHandlers: SMTPResponseCallback[] = [];
+	private readonly dispatch = (
+		err: Error | null | undefined,
+		msg?: unknown
+	) => {
+		if (err) {
+			// the connection is unusable, so every waiting command fails with it
+			this.responseHandlers.splice(0).forEach((handler) => handler(err));
+			if (this.listenerCount('error') > 0) {
+				this.emit('error', err);
+			}
+		} else {
+			this.recorder?.server((msg as SMTPReply).data);
+			this.emit('reply', msg as SMTPReply);
+			this.responseHandlers.shift()?.(null, msg as SMTPReply);
+		}
+	};
+
+	/**
+	 * a stream from the `socketFactory` is not timed out while it is still sending, as a socket is not
+	 * @returns {void}
+	 */
+	private readonly written = () => this.monitor?.touch();
 
 	/**
 	 * SMTP class written using python's (2.7) smtplib.py as a base.
@@ -134,8 +324,21 @@ export class SMTPConnection extends EventEmitter {
 		port,
 		ssl,
 		tls,
+		tlsPolicy,
+		pins,
+		retry,
+		longLines,
+		transcript,
 		logger,
+		logLevel,
 		authentication,
+		credentials,
+		path,
+		localAddress,
+		family,
+		socketFactory,
+		proxy,
+		lmtp,
 	}: Partial<SMTPConnectionOptions> = {}) {
 		super();
 
@@ -155,6 +358,46 @@ export class SMTPConnection extends EventEmitter {
 			this.host = host;
 		}
 
+		if (typeof path === 'string') {
+			this.path = path;
+		}
+
+		if (typeof localAddress === 'string') {
+			this.localAddress = localAddress;
+		}
+
+		if (family === 4 || family === 6) {
+			this.family = family;
+		}
+
+		if (typeof socketFactory === 'function') {
+			this.socketFactory = socketFactory;
+		}
+
+		if (proxy != null) {
+			this.proxy = parseProxy(proxy);
+		}
+
+		if (Array.isArray(pins)) {
+			this.pins = pins;
+		}
+
+		this.retryPolicy = createRetryPolicy(retry);
+
+		if (longLines === 'wrap' || longLines === 'reject') {
+			this.longLines = longLines;
+		}
+
+		if (transcript === true) {
+			this.transcriptOptions = {};
+		} else if (typeof transcript === 'object' && transcript != null) {
+			this.transcriptOptions = transcript;
+		}
+
+		if (typeof lmtp === 'boolean') {
+			this.lmtp = lmtp;
+		}
+
 		if (
 			ssl != null &&
 			(typeof ssl === 'boolean' ||
@@ -171,8 +414,21 @@ export class SMTPConnection extends EventEmitter {
 			this.tls = tls;
 		}
 
+		if (typeof credentials === 'function') {
+			this.credentials = credentials;
+		}
+
+		this.tlsPolicy =
+			tlsPolicy === 'require' ||
+			tlsPolicy === 'opportunistic' ||
+			tlsPolicy === 'none'
+				? tlsPolicy
+				: this.tls
+				? 'require'
+				: 'none';
+
 		this.port = port || (ssl ? SMTP_SSL_PORT : tls ? SMTP_TLS_PORT : SMTP_PORT);
-		this.loggedin = user && password ? false : true;
+		this.loggedin = (user && password) || this.credentials ? false : true;
 
 		if (!user && (password?.length ?? 0) > 0) {
 			throw new Error('`password` cannot be set without `user`');
@@ -183,17 +439,52 @@ export class SMTPConnection extends EventEmitter {
 		this.password = () => password as string;
 
 		if (typeof logger === 'function') {
-			this.log = logger;
+			this.logger = adaptFunctionLogger(logger);
+		} else if (typeof logger === 'object' && logger != null) {
+			this.logger = logger;
+		} else if (logLevel != null) {
+			this.logger = this.consoleLogger;
+		}
+
+		if (logLevel != null && SMTP_LOG_LEVELS.includes(logLevel)) {
+			this.logLevel = logLevel;
 		}
 	}
 
 	/**
 	 * @public
+	 * @description turns logging every entry on or off; without a `logger`, entries are printed to the console.
 	 * @param {0 | 1} level -
 	 * @returns {void}
 	 */
 	public debug(level: 0 | 1) {
-		DEBUG = level;
+		if (level === 1) {
+			this.logger = this.logger ?? this.consoleLogger;
+			this.logLevel = 'trace';
+		} else if (this.logger === this.consoleLogger) {
+			this.logger = null;
+		}
+	}
+
+	/**
+	 * @public
+	 * @param {SMTPLogLevel} level the severity of the entry
+	 * @param {string} message what happened
+	 * @param {SMTPLogFields} [fields={}] details of the entry, to which the host, port and connection id are added
+	 * @returns {void}
+	 */
+	public log(level: SMTPLogLevel, message: string, fields: SMTPLogFields = {}) {
+		if (
+			this.logger != null &&
+			SMTP_LOG_LEVELS.indexOf(level) >= SMTP_LOG_LEVELS.indexOf(this.logLevel)
+		) {
+			this.logger[level](message, {
+				host: this.host,
+				port: this.port,
+				...(this.connectionId != null && { connectionId: this.connectionId }),
+				...fields,
+			});
+		}
 	}
 
 	/**
@@ -212,20 +503,47 @@ export class SMTPConnection extends EventEmitter {
 		return this.loggedin;
 	}
 
+	/**
+	 * @public
+	 * @returns {boolean} whether or not the connection is encrypted, with ssl or once upgraded with starttls
+	 */
+	public secure() {
+		return this._secure;
+	}
+
+	/**
+	 * @public
+	 * @description the conversation of the last connection, with credentials redacted, when the `transcript` option is set.
+	 * @returns {SMTPTranscriptEntry[] | null} the recorded lines, oldest first
+	 */
+	public transcript() {
+		return this.recorder?.lines() ?? null;
+	}
+
+	/**
+	 * @public
+	 * @returns {SMTPTLSInfo | null} the negotiated protocol, cipher and server certificate, while the connection is encrypted
+	 */
+	public tls_info() {
+		return this._secure && this.sock instanceof TLSSocket
+			? describeTLS(this.sock)
+			: null;
+	}
+
 	/**
 	 * Establish an SMTP connection.
 	 *
 	 * NOTE: `host` is trimmed before being used to establish a connection; however, the original untrimmed value will still be visible in configuration.
 	 *
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {number} [port] the port to use for the connection
 	 * @param {string} [host] the hostname to use for the connection
 	 * @param {ConnectOptions} [options={}] the options
 	 * @returns {void}
 	 */
 	public connect(
-		callback: (...rest: any[]) => void,
+		callback: SMTPReplyCallback,
 		port: number = this.port,
 		host: string = this.host,
 		options: ConnectOptions = {}
@@ -242,25 +560,16 @@ export class SMTPConnection extends EventEmitter {
 		 * @returns {void}
 		 */
 		const connected = () => {
-			this.log(`connected: ${this.host}:${this.port}`);
+			this.log('debug', 'connected', { path: this.path ?? undefined });
 
-			if (this.ssl && !this.tls) {
-				// if key/ca/cert was passed in, check if connection is authorized
-				if (
-					typeof this.ssl !== 'boolean' &&
-					this.sock instanceof TLSSocket &&
-					!this.sock.authorized
-				) {
+			if (this.ssl && this.sock instanceof TLSSocket) {
+				const err = this.verifyPeer(this.sock, this.ssl);
+				if (err) {
 					this.close(true);
-					caller(
-						callback,
-						SMTPError.create(
-							'could not establish an ssl connection',
-							SMTPErrorStates.CONNECTIONAUTH
-						)
-					);
+					caller(callback, err);
 				} else {
 					this._secure = true;
+					this.emit('secure', describeTLS(this.sock));
 				}
 			}
 		};
@@ -274,7 +583,7 @@ export class SMTPConnection extends EventEmitter {
 				connected();
 			} else {
 				this.close(true);
-				this.log(err);
+				this.log('error', 'could not connect', { error: err.message });
 				caller(
 					callback,
 					SMTPError.create(
@@ -286,24 +595,22 @@ export class SMTPConnection extends EventEmitter {
 			}
 		};
 
-		const response = (
-			err: Error | null | undefined,
-			msg: { code: string | number; data: string }
-		) => {
-			if (err) {
+		const response: SMTPResponseCallback = (err, msg) => {
+			if (err || msg == null) {
 				if (this._state === SMTPState.NOTCONNECTED && !this.sock) {
 					return;
 				}
 				this.close(true);
 				caller(callback, err);
-			} else if (msg.code == '220') {
-				this.log(msg.data);
+			} else if (msg.code === 220) {
+				this.log('trace', `server: ${msg.message}`, { code: msg.code });
 
 				// might happen first, so no need to wait on connected()
 				this._state = SMTPState.CONNECTED;
-				caller(callback, null, msg.data);
+				this.emit('connect', msg.message);
+				caller(callback, null, msg.data, msg.message, msg);
 			} else {
-				this.log(`response (data): ${msg.data}`);
+				this.log('warn', `bad greeting: ${msg.message}`, { code: msg.code });
 				this.quit(() => {
 					caller(
 						callback,
@@ -318,49 +625,157 @@ export class SMTPConnection extends EventEmitter {
 			}
 		};
 
-		this._state = SMTPState.CONNECTING;
-		this.log(`connecting: ${this.host}:${this.port}`);
+		/**
+		 * @param {Socket} sock the socket to the server
+		 * @returns {void}
+		 */
+		const attach = (sock: Socket) => {
+			this.monitor = new SMTPResponseMonitor(sock, this.timeout, () =>
+				this.close(true)
+			);
+			this.responseHandlers = [response];
+			sock.on('response', this.dispatch);
+			sock.once('error', response); // the socket could reset or throw, so let's handle it and let the user know
+		};
 
-		if (this.ssl) {
+		this._state = SMTPState.CONNECTING;
+		this.connectionId = randomBytes(4).toString('hex');
+		this.log('info', 'connecting', { path: this.path ?? undefined });
+		this.recorder =
+			this.transcriptOptions != null
+				? new SMTPTranscript(this.transcriptOptions)
+				: null;
+
+		const address = this.host.trim();
+		const endpoint = {
+			host: address,
+			port: this.port,
+			...(this.localAddress != null && { localAddress: this.localAddress }),
+			...(this.family != null && { family: this.family }),
+		};
+		const secure = typeof this.ssl === 'object' ? this.ssl : {};
+
+		if (this.socketFactory != null) {
+			// a stream from the factory is only used through its Duplex interface
+			const stream = this.socketFactory({
+				host: address,
+				port: this.port,
+				path: this.path,
+				localAddress: this.localAddress,
+				family: this.family,
+			}) as Socket;
+			this.sock = this.ssl
+				? connect({ ...secure, host: address, socket: stream }, connected)
+				: stream;
+		} else if (this.proxy != null) {
+			// nothing is attached until the tunnel is open, as the greeting only comes through it
+			const socket = createProxyTunnel(
+				this.proxy,
+				{ ...endpoint, timeout: this.timeout },
+				(err, tunnel) => {
+					if (this.sock !== socket) {
+						return; // closed while the tunnel was opening
+					} else if (err || tunnel == null) {
+						this.close(true);
+						caller(callback, err);
+					} else if (this.ssl) {
+						this.sock = connect(
+							{ ...secure, host: address, socket: tunnel },
+							connected
+						);
+						attach(this.sock);
+					} else {
+						attach(tunnel);
+						tunnel.resume();
+					}
+				}
+			);
+			this.sock = socket;
+			return;
+		} else if (this.ssl) {
 			this.sock = connect(
-				this.port,
-				this.host.trim(),
-				typeof this.ssl === 'object' ? this.ssl : {},
+				this.path != null
+					? { ...secure, path: this.path }
+					: { ...secure, ...endpoint },
 				connected
 			);
+		} else if (this.path != null) {
+			this.sock = new Socket();
+			this.sock.connect(this.path, connectedErrBack);
 		} else {
 			this.sock = new Socket();
-			this.sock.connect(this.port, this.host.trim(), connectedErrBack);
+			this.sock.connect(endpoint, connectedErrBack);
 		}
 
-		this.monitor = new SMTPResponseMonitor(this.sock, this.timeout, () =>
-			this.close(true)
-		);
-		this.sock.once('response', response);
-		this.sock.once('error', response); // the socket could reset or throw, so let's handle it and let the user know
+		attach(this.sock);
+	}
+
+	/**
+	 * @param {boolean} redacting whether the commands sent are credentials, which must not be logged or recorded
+	 * @returns {void}
+	 */
+	protected redact(redacting: boolean) {
+		this.redacting = redacting;
+		this.recorder?.redact(redacting);
+	}
+
+	/**
+	 * @param {TLSSocket} sock a secure socket, once its handshake is complete
+	 * @param {boolean | SMTPSocketOptions} options the options the socket was created with
+	 * @returns {Error | null} the reason the server cannot be trusted, if any
+	 */
+	protected verifyPeer(sock: TLSSocket, options: boolean | SMTPSocketOptions) {
+		// if key/ca/cert was passed in, check if connection is authorized, unless the caller turned verification off
+		if (
+			typeof options !== 'boolean' &&
+			options.rejectUnauthorized !== false &&
+			!sock.authorized
+		) {
+			return SMTPError.create(
+				'could not establish an ssl connection',
+				SMTPErrorStates.CONNECTIONAUTH,
+				sock.authorizationError
+			);
+		} else if (this.pins.length > 0 && !matchesPin(sock, this.pins)) {
+			return SMTPError.create(
+				'server certificate does not match any pin',
+				SMTPErrorStates.PINMISMATCH
+			);
+		}
+
+		const { protocol, cipher } = describeTLS(sock);
+		this.log('info', 'secured', { protocol, cipher });
+		return null;
 	}
 
 	/**
 	 * @public
 	 * @param {string} str the string to send
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPResponseCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public send(str: string, callback: (...args: any[]) => void) {
-		if (this.sock != null && this._state === SMTPState.CONNECTED) {
-			this.log(str);
-
-			this.sock.once('response', (err, msg) => {
-				if (err) {
-					caller(callback, err);
-				} else {
-					this.log(msg.data);
-					caller(callback, null, msg);
+	public send(str: string, callback: SMTPResponseCallback) {
+		// a socket that has ended, or timed out, would never reply
+		if (
+			this.sock != null &&
+			this.sock.writable &&
+			this._state === SMTPState.CONNECTED
+		) {
+			const line = str.replace(/\r\n$/, '');
+			this.log(
+				'trace',
+				`client: ${this.redacting ? redactCommand(line) : line}`,
+				{
+					command: this.redacting
+						? 'AUTH'
+						: line.trim().split(' ')[0].toUpperCase(),
 				}
-			});
-			if (this.sock.writable) {
-				this.sock.write(str);
-			}
+			);
+			this.recorder?.client(str);
+			this.emit('command', this.redacting ? redactCommand(line) : line);
+
+			this.expect(callback);
+			this.sock.write(str, this.written);
 		} else {
 			this.close(true);
 			caller(
@@ -373,17 +788,58 @@ export class SMTPConnection extends EventEmitter {
 		}
 	}
 
+	/**
+	 * @protected
+	 * @param {SMTPResponseCallback} callback function to call with the next reply that no earlier command awaits
+	 * @returns {void}
+	 */
+	protected expect(callback: SMTPResponseCallback) {
+		this.responseHandlers.push((err, msg) => {
+			if (err || msg == null) {
+				caller(callback, err);
+			} else {
+				this.log('trace', `server: ${msg.message}`, { code: msg.code });
+				caller(callback, null, msg);
+			}
+		});
+	}
+
+	/**
+	 * @public
+	 * @description Writes every command issued by `commands` in a single batch instead of waiting for each reply.
+	 *
+	 * Replies are still matched to their commands in order, so each callback receives its own reply or error.
+	 * Only use this when the server advertises PIPELINING.
+	 *
+	 * @see https://tools.ietf.org/html/rfc2920
+	 * @param {function(): void} commands issues the commands to batch
+	 * @returns {void}
+	 */
+	public pipeline(commands: () => void) {
+		const sock = this.sock;
+
+		sock?.cork();
+		try {
+			commands();
+		} finally {
+			sock?.uncork();
+		}
+	}
+
 	/**
 	 * @public
 	 * @param {string} cmd command to issue
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {(number[] | number)} [codes=[250]] array codes
+	 * @param {boolean} [retry=true] whether the command can be sent again on its own, when the server asks to retry it;
+	 * otherwise, such a reply fails the command with `SMTPErrorStates.RETRYLATER`
 	 * @returns {void}
 	 */
 	public command(
 		cmd: string,
-		callback: (...rest: any[]) => void,
-		codes: number[] | number = [250]
+		callback: SMTPReplyCallback,
+		codes: number[] | number = [250],
+		retry = true
 	) {
 		const codesArray = Array.isArray(codes)
 			? codes
@@ -391,44 +847,76 @@ export class SMTPConnection extends EventEmitter {
 			? [codes]
 			: [250];
 
-		const response = (
-			err: Error | null | undefined,
-			msg: { code: string | number; data: string; message: string }
-		) => {
-			if (err) {
+		const verb = cmd.split(' ')[0];
+		let attempts = 1;
+
+		const response: SMTPResponseCallback = (err, msg) => {
+			if (err || msg == null) {
 				caller(callback, err);
 			} else {
-				const code = Number(msg.code);
+				const { code } = msg;
 				if (codesArray.indexOf(code) !== -1) {
-					caller(callback, err, msg.data, msg.message);
+					caller(callback, null, msg.data, msg.message, msg);
 				} else if (
-					(code === 450 || code === 451) &&
-					msg.message.toLowerCase().includes('greylist') &&
-					this.greylistResponseTracker.has(response) === false
+					(retry === false || attempts < this.retryPolicy.maxAttempts) &&
+					matchesRetry(this.retryPolicy, msg)
 				) {
-					this.greylistResponseTracker.add(response);
-					setTimeout(() => {
-						this.send(cmd + CRLF, response);
-					}, GREYLIST_DELAY);
+					const delay = retryDelay(this.retryPolicy, attempts);
+					const command = this.redacting ? 'AUTH' : verb.toUpperCase();
+					attempts++;
+
+					if (retry === false || delay > this.retryPolicy.holdLimit) {
+						this.log('info', `deferring command for ${delay}ms`, {
+							command,
+							code,
+						});
+						const error = SMTPError.fromReply(
+							`server asked to retry command '${command}' later: ${msg.message}`,
+							SMTPErrorStates.RETRYLATER,
+							msg,
+							command
+						);
+						error.retryAfter = delay;
+						caller(callback, error);
+					} else {
+						this.log('info', `retrying command in ${delay}ms`, {
+							command,
+							code,
+						});
+						// the server has nothing to say until the command is sent again, so the connection must not time out meanwhile
+						const monitor = this.monitor;
+						monitor?.suspend();
+						setTimeout(() => {
+							if (this.monitor !== monitor) {
+								caller(
+									callback,
+									SMTPError.create(
+										`connection has closed while waiting to retry command '${command}'`,
+										SMTPErrorStates.CONNECTIONCLOSED
+									)
+								);
+							} else {
+								monitor?.resume();
+								this.send(cmd + CRLF, response);
+							}
+						}, delay);
+					}
 				} else {
 					const suffix = msg.message ? `: ${msg.message}` : '';
-					const errorMessage = `bad response on command '${
-						cmd.split(' ')[0]
-					}'${suffix}`;
+					const errorMessage = `bad response on command '${verb}'${suffix}`;
 					caller(
 						callback,
-						SMTPError.create(
+						SMTPError.fromReply(
 							errorMessage,
 							SMTPErrorStates.BADRESPONSE,
-							null,
-							msg.data
+							msg,
+							verb.toUpperCase()
 						)
 					);
 				}
 			}
 		};
 
-		this.greylistResponseTracker.delete(response);
 		this.send(cmd + CRLF, response);
 	}
 
@@ -442,28 +930,31 @@ export class SMTPConnection extends EventEmitter {
 	 * As this command was deprecated by rfc2821, it should only be used for compatibility with non-compliant servers.
 	 * @see https://tools.ietf.org/html/rfc2821#appendix-F.3
 	 *
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} domain the domain to associate with the 'helo' request
 	 * @returns {void}
 	 */
-	public helo(callback: (...rest: any[]) => void, domain?: string) {
-		this.command(`helo ${domain || this.domain}`, (err, data) => {
-			if (err) {
-				caller(callback, err);
-			} else {
-				this.parse_smtp_features(data);
-				caller(callback, err, data);
+	public helo(callback: SMTPReplyCallback, domain?: string) {
+		this.command(
+			`helo ${domain || this.domain}`,
+			(err, data, message, reply) => {
+				if (err) {
+					caller(callback, err);
+				} else {
+					this.parse_smtp_features(data ?? '');
+					caller(callback, err, data, message, reply);
+				}
 			}
-		});
+		);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public starttls(callback: (...rest: any[]) => void) {
-		const response = (err: Error, msg: { data: unknown }) => {
+	public starttls(callback: SMTPReplyCallback) {
+		const response: SMTPReplyCallback = (err, data, message, reply) => {
 			if (this.sock == null) {
 				throw new Error('null socket');
 			}
@@ -471,25 +962,62 @@ export class SMTPConnection extends EventEmitter {
 			if (err) {
 				err.message += ' while establishing a starttls session';
 				caller(callback, err);
-			} else {
-				const secureContext = createSecureContext(
-					typeof this.tls === 'object' ? this.tls : {}
+				return;
+			}
+
+			// the plaintext monitor would read the handshake as replies
+			this.monitor?.stop();
+			this.monitor = null;
+
+			/**
+			 * @param {Error} err the reason the handshake failed
+			 * @returns {void}
+			 */
+			const failed = (err: Error) => {
+				this.close(true);
+				caller(
+					callback,
+					SMTPError.create(
+						'could not establish a starttls session',
+						SMTPErrorStates.TLSFAILED,
+						err
+					)
 				);
-				const secureSocket = new TLSSocket(this.sock, { secureContext });
+			};
 
-				secureSocket.on('error', (err: Error) => {
-					this.close(true);
-					caller(callback, err);
-				});
+			const secureSocket = connect(
+				{
+					...(typeof this.tls === 'object' ? this.tls : {}),
+					host: this.host.trim(),
+					socket: this.sock,
+				},
+				() => {
+					secureSocket.removeListener('error', failed);
+
+					const err = this.verifyPeer(secureSocket, this.tls);
+					if (err) {
+						this.close(true);
+						caller(callback, err);
+						return;
+					}
 
-				this._secure = true;
-				this.sock = secureSocket;
+					this._secure = true;
+					// the features offered before the upgrade must be discarded
+					// @see https://tools.ietf.org/html/rfc3207#section-4.2
+					this.features = null;
+					this.emit('secure', describeTLS(secureSocket));
+					this.monitor = new SMTPResponseMonitor(
+						secureSocket,
+						this.timeout,
+						() => this.close(true)
+					);
+					secureSocket.on('response', this.dispatch);
+					caller(callback, null, data, message, reply);
+				}
+			);
 
-				new SMTPResponseMonitor(this.sock, this.timeout, () =>
-					this.close(true)
-				);
-				caller(callback, msg.data);
-			}
+			secureSocket.once('error', failed);
+			this.sock = secureSocket;
 		};
 
 		this.command('starttls', response, [220]);
@@ -527,22 +1055,43 @@ export class SMTPConnection extends EventEmitter {
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} domain the domain to associate with the 'ehlo' request
 	 * @returns {void}
 	 */
-	public ehlo(callback: (...rest: any[]) => void, domain?: string) {
+	public ehlo(callback: SMTPReplyCallback, domain?: string) {
 		this.features = {};
-		this.command(`ehlo ${domain || this.domain}`, (err, data) => {
+		// lmtp has no helo, and its ehlo is named lhlo
+		const verb = this.lmtp ? 'lhlo' : 'ehlo';
+		this.command(`${verb} ${domain || this.domain}`, (err, ...reply) => {
 			if (err) {
 				caller(callback, err);
 			} else {
-				this.parse_smtp_features(data);
-
-				if (this.tls && !this._secure) {
-					this.starttls(() => this.ehlo(callback, domain));
+				this.parse_smtp_features(reply[0] ?? '');
+				this.emit('ehlo', { ...this.features });
+
+				if (this._secure || this.tlsPolicy === 'none') {
+					caller(callback, err, ...reply);
+				} else if (this.has_extn('starttls')) {
+					this.starttls((err: Error | null) => {
+						if (err) {
+							caller(callback, err);
+						} else {
+							this.ehlo(callback, domain);
+						}
+					});
+				} else if (this.tlsPolicy === 'require') {
+					this.quit(() =>
+						caller(
+							callback,
+							SMTPError.create(
+								'server does not support starttls',
+								SMTPErrorStates.STARTTLSNOTSUPPORTED
+							)
+						)
+					);
 				} else {
-					caller(callback, err, data);
+					caller(callback, err, ...reply);
 				}
 			}
 		});
@@ -554,94 +1103,252 @@ export class SMTPConnection extends EventEmitter {
 	 * @returns {boolean} whether the extension exists
 	 */
 	public has_extn(opt: string) {
-		return (this.features ?? {})[opt.toLowerCase()] === undefined;
+		return (this.features ?? {})[opt.toLowerCase()] !== undefined;
+	}
+
+	/**
+	 * @public
+	 * @description the extensions the server listed in reply to the last EHLO, which are discarded when the connection is upgraded with STARTTLS.
+	 * @returns {SMTPCapabilities | null} the capabilities of the server, or null before EHLO
+	 */
+	public capabilities(): SMTPCapabilities | null {
+		return this.features != null ? parseCapabilities(this.features) : null;
 	}
 
 	/**
 	 * @public
 	 * @description SMTP 'help' command, returns text from the server
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} domain the domain to associate with the 'help' request
 	 * @returns {void}
 	 */
-	public help(callback: (...rest: any[]) => void, domain: string) {
+	public help(callback: SMTPReplyCallback, domain: string) {
 		this.command(domain ? `help ${domain}` : 'help', callback, [211, 214]);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public rset(callback: (...rest: any[]) => void) {
+	public rset(callback: SMTPReplyCallback) {
 		this.command('rset', callback);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPResponseCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public noop(callback: (...rest: any[]) => void) {
-		this.send('noop', callback);
+	public noop(callback: SMTPResponseCallback) {
+		this.send(`noop${CRLF}`, callback);
+	}
+
+	/**
+	 * @public
+	 * @description the maximum message size advertised through the SIZE extension.
+	 * @see https://tools.ietf.org/html/rfc1870
+	 * @returns {number | null} the size limit in bytes (0 if the server has no fixed limit), or null if SIZE was not advertised
+	 */
+	public size_limit() {
+		return this.capabilities()?.size ?? null;
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} from the sender
+	 * @param {string[]} [params=[]] esmtp parameters to append to the command
 	 * @returns {void}
 	 */
-	public mail(callback: (...rest: any[]) => void, from: string) {
-		this.command(`mail FROM:${from}`, callback);
+	public mail(
+		callback: SMTPReplyCallback,
+		from: string,
+		params: string[] = []
+	) {
+		this.command([`mail FROM:${from}`, ...params].join(' '), callback);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} to the receiver
+	 * @param {string[]} [params=[]] esmtp parameters to append to the command
 	 * @returns {void}
 	 */
-	public rcpt(callback: (...rest: any[]) => void, to: string) {
-		this.command(`RCPT TO:${to}`, callback, [250, 251]);
+	public rcpt(callback: SMTPReplyCallback, to: string, params: string[] = []) {
+		this.command([`RCPT TO:${to}`, ...params].join(' '), callback, [250, 251]);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public data(callback: (...rest: any[]) => void) {
+	public data(callback: SMTPReplyCallback) {
 		this.command('data', callback, [354]);
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @description ends the message sent with DATA.
+	 *
+	 * An lmtp server replies once for every recipient it accepted, in the order they were given,
+	 * so the callback receives the status of each recipient after the last reply; if any of them failed,
+	 * so does the callback, with the statuses in `SMTPError#recipients`.
+	 *
+	 * @see https://tools.ietf.org/html/rfc2033#section-4.2
+	 * @param {SMTPDataEndCallback} callback function to call after response
+	 * @param {string[]} [recipients=[]] the recipients the lmtp server accepted
 	 * @returns {void}
 	 */
-	public data_end(callback: (...rest: any[]) => void) {
-		this.command(`${CRLF}.`, callback);
+	public data_end(callback: SMTPDataEndCallback, recipients: string[] = []) {
+		if (
+			this.lmtp === false ||
+			recipients.length === 0 ||
+			this._state !== SMTPState.CONNECTED
+		) {
+			// the end of the message means nothing without the message, so only all of it can be sent again
+			this.command(`${CRLF}.`, callback, [250], false);
+			return;
+		}
+
+		const statuses: SMTPRecipientStatus[] = [];
+
+		recipients.forEach((address, index) => {
+			const status: SMTPResponseCallback = (err, reply) => {
+				// there is a reply whenever there is no error
+				const msg = reply as SMTPReply;
+				statuses.push({
+					address,
+					error:
+						err ??
+						(msg.code === 250
+							? null
+							: SMTPError.fromReply(
+									`bad response for recipient '${address}': ${msg.message}`,
+									SMTPErrorStates.BADRESPONSE,
+									msg,
+									'DATA'
+							  )),
+				});
+
+				if (statuses.length === recipients.length) {
+					const failures = statuses.filter(({ error }) => error != null);
+					if (failures.length === 0) {
+						caller(callback, null, msg.data, msg.message, msg, statuses);
+					} else {
+						const error = SMTPError.create(
+							`message was not delivered to ${failures.length} of ${statuses.length} recipients`,
+							SMTPErrorStates.DELIVERYFAILED,
+							failures[0].error
+						);
+						error.recipients = statuses;
+						caller(callback, error);
+					}
+				}
+			};
+
+			if (index === 0) {
+				this.send(`${CRLF}.${CRLF}`, status);
+			} else {
+				this.expect(status);
+			}
+		});
 	}
 
 	/**
 	 * @public
-	 * @param {string} data the message to send
+	 * @description SMTP 'bdat' command -- sends a chunk of the message, which needs no dot-stuffing and may contain binary data.
+	 *
+	 * Only use this when the server advertises CHUNKING.
+	 *
+	 * @see https://tools.ietf.org/html/rfc3030
+	 * @param {SMTPReplyCallback} callback function to call after response
+	 * @param {string | Buffer} chunk the chunk of the message to send
+	 * @param {boolean} [last=false] whether this is the final chunk of the message
 	 * @returns {void}
 	 */
-	public message(data: string) {
-		this.log(data);
-		this.sock?.write(data) ?? this.log('no socket to write to');
+	public bdat(
+		callback: SMTPReplyCallback,
+		chunk: string | Buffer,
+		last = false
+	) {
+		const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+
+		this.pipeline(() => {
+			this.command(
+				`BDAT ${data.length}${last ? ' LAST' : ''}`,
+				callback,
+				[250],
+				false
+			);
+			this.message(data);
+		});
+	}
+
+	/**
+	 * @public
+	 * @description a stream that sends the message written to it after DATA, with CRLF line endings and dot-stuffing;
+	 * once it ends, end the message with `data_end`.
+	 *
+	 * While the socket is sending what it buffered, the stream stops reading, so its `write` returns false until it emits `drain`.
+	 * @returns {SMTPDataEncoder} the stream
+	 */
+	public data_stream() {
+		const encoder = new SMTPDataEncoder({ longLines: this.longLines });
+
+		encoder.on('data', (data: Buffer) => {
+			const sock = this.sock;
+			if (this.message(data) === false && sock != null) {
+				encoder.pause();
+
+				/**
+				 * @returns {void}
+				 */
+				const resume = () => {
+					sock.removeListener('drain', resume);
+					sock.removeListener('close', resume);
+					encoder.resume();
+				};
+
+				// a closed socket will not drain, and the end of the message will report it
+				sock.once('drain', resume);
+				sock.once('close', resume);
+			}
+		});
+
+		return encoder;
+	}
+
+	/**
+	 * @public
+	 * @description writes the data to the server as it is, so a message sent after DATA must already be encoded (see `data_stream`).
+	 * @param {string | Buffer} data the message to send
+	 * @returns {boolean} false if the socket buffered the data, in which case wait for it to emit `drain` before sending more
+	 */
+	public message(data: string | Buffer) {
+		this.log('trace', 'client: message data', {
+			bytes: Buffer.byteLength(data),
+		});
+		this.recorder?.body(data);
+
+		if (this.sock == null) {
+			this.log('warn', 'no socket to write to');
+			return true;
+		}
+
+		return this.sock.write(data, this.written);
 	}
 
 	/**
 	 * @public
 	 * @description SMTP 'verify' command -- checks for address validity.
 	 * @param {string} address the address to validate
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public verify(address: string, callback: (...rest: any[]) => void) {
+	public verify(address: string, callback: SMTPReplyCallback) {
 		this.command(`vrfy ${address}`, callback, [250, 251, 252]);
 	}
 
@@ -649,10 +1356,10 @@ export class SMTPConnection extends EventEmitter {
 	 * @public
 	 * @description SMTP 'expn' command -- expands a mailing list.
 	 * @param {string} address the mailing list to expand
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @returns {void}
 	 */
-	public expn(address: string, callback: (...rest: any[]) => void) {
+	public expn(address: string, callback: SMTPReplyCallback) {
 		this.command(`expn ${address}`, callback);
 	}
 
@@ -663,23 +1370,25 @@ export class SMTPConnection extends EventEmitter {
 	 * If there has been no previous EHLO or HELO command self session, self
 	 * method tries ESMTP EHLO first.
 	 *
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} [domain] the domain to associate with the command
 	 * @returns {void}
 	 */
-	public ehlo_or_helo_if_needed(
-		callback: (...rest: any[]) => void,
-		domain?: string
-	) {
-		// is this code callable...?
-		if (!this.features) {
-			const response = (err: Error, data: unknown) =>
-				caller(callback, err, data);
-			this.ehlo((err, data) => {
-				if (err) {
-					this.helo(response, domain);
+	public ehlo_or_helo_if_needed(callback: SMTPReplyCallback, domain?: string) {
+		if (this.features) {
+			caller(callback, null);
+		} else {
+			this.ehlo((err, ...reply) => {
+				// helo cannot upgrade the connection, lmtp has no helo, and a failed upgrade closes the connection
+				if (
+					err &&
+					(this.lmtp || this.tlsPolicy === 'require' || this.sock == null)
+				) {
+					caller(callback, err);
+				} else if (err) {
+					this.helo(callback, domain);
 				} else {
-					caller(callback, err, data);
+					caller(callback, err, ...reply);
 				}
 			}, domain);
 		}
@@ -695,17 +1404,17 @@ export class SMTPConnection extends EventEmitter {
 	 *
 	 * This method will return normally if the authentication was successful.
 	 *
-	 * @param {function(...any[]): void} callback function to call after response
+	 * @param {SMTPReplyCallback} callback function to call after response
 	 * @param {string} [user] the username to authenticate with
 	 * @param {string} [password] the password for the authentication
-	 * @param {{ method: string, domain: string }} [options] login options
+	 * @param {{ method: string, domain: string, refresh: boolean }} [options] login options (`refresh` asks the `credentials` provider for new credentials)
 	 * @returns {void}
 	 */
 	public login(
-		callback: (...rest: any[]) => void,
+		callback: SMTPReplyCallback,
 		user?: string,
 		password?: string,
-		options: { method?: string; domain?: string } = {}
+		options: { method?: string; domain?: string; refresh?: boolean } = {}
 	) {
 		const login = {
 			user: user ? () => user : this.user,
@@ -721,170 +1430,166 @@ export class SMTPConnection extends EventEmitter {
 				return;
 			}
 
-			let method: keyof typeof AUTH_METHODS | null = null;
-
-			/**
-			 * @param {string} challenge challenge
-			 * @returns {string} base64 cram hash
-			 */
-			const encodeCramMd5 = (challenge: string) => {
-				const hmac = createHmac('md5', login.password());
-				hmac.update(Buffer.from(challenge, 'base64').toString('ascii'));
-				return Buffer.from(`${login.user()} ${hmac.digest('hex')}`).toString(
-					'base64'
-				);
-			};
-
-			/**
-			 * @returns {string} base64 login/password
-			 */
-			const encodePlain = () =>
-				Buffer.from(`\u0000${login.user()}\u0000${login.password()}`).toString(
-					'base64'
-				);
-
-			/**
-			 * @see https://developers.google.com/gmail/xoauth2_protocol
-			 * @returns {string} base64 xoauth2 auth token
-			 */
-			const encodeXoauth2 = () =>
-				Buffer.from(
-					`user=${login.user()}\u0001auth=Bearer ${login.password()}\u0001\u0001`
-				).toString('base64');
+			let mechanism: SASLMechanism | null = null;
 
 			// List of authentication methods we support: from preferred to
 			// less preferred methods.
-			if (!method) {
+			if (!mechanism) {
 				const preferred = this.authentication;
-				let auth = '';
-
-				if (typeof this.features?.['auth'] === 'string') {
-					auth = this.features['auth'];
-				}
+				const auth = this.capabilities()?.auth ?? [];
 
 				for (let i = 0; i < preferred.length; i++) {
-					if (auth.includes(preferred[i])) {
-						method = preferred[i];
+					const registered = getSASLMechanism(preferred[i]);
+					if (registered != null && auth.includes(registered.name)) {
+						mechanism = registered;
 						break;
 					}
 				}
 			}
 
-			/**
-			 * handle bad responses from command differently
-			 * @param {Error} err err
-			 * @param {unknown} data data
-			 * @returns {void}
-			 */
-			const failed = (err: Error, data: unknown) => {
-				this.loggedin = false;
-				this.close(); // if auth is bad, close the connection, it won't get better by itself
-
-				err.message = err.message.replace(this.password(), 'REDACTED');
-
+			if (mechanism == null) {
 				caller(
 					callback,
 					SMTPError.create(
-						'authorization.failed',
-						SMTPErrorStates.AUTHFAILED,
-						err,
+						'no form of authorization supported',
+						SMTPErrorStates.AUTHNOTSUPPORTED,
+						null,
 						data
 					)
 				);
-			};
+				return;
+			}
 
-			/**
-			 * @param {Error} err err
-			 * @param {unknown} data data
-			 * @returns {void}
-			 */
-			const response = (err: Error | null | undefined, data: unknown) => {
-				if (err) {
-					failed(err, data);
-				} else {
-					this.loggedin = true;
-					caller(callback, err, data);
-				}
-			};
+			const sasl = mechanism;
 
 			/**
-			 * @param {Error} err err
-			 * @param {unknown} data data
-			 * @param {string} msg msg
+			 * @param {SMTPCredentials} credentials the credentials to authenticate with
 			 * @returns {void}
 			 */
-			const attempt = (
-				err: Error | null | undefined,
-				data: unknown,
-				msg: string
-			) => {
-				if (err) {
-					failed(err, data);
-				} else {
-					if (method === AUTH_METHODS['CRAM-MD5']) {
-						this.command(encodeCramMd5(msg), response, [235, 503]);
-					} else if (method === AUTH_METHODS.LOGIN) {
-						this.command(
-							Buffer.from(login.password()).toString('base64'),
-							response,
-							[235, 503]
-						);
+			const authenticate = (credentials: SMTPCredentials) => {
+				const session: SASLSession = {
+					user: credentials.user,
+					password: credentials.password,
+					host: this.host,
+					port: this.port,
+					state: {},
+				};
+
+				/**
+				 * @param {string} text text
+				 * @returns {string} base64 text
+				 */
+				const encode = (text: string) => Buffer.from(text).toString('base64');
+
+				/**
+				 * handle bad responses from command differently
+				 * @param {Error} err err
+				 * @param {unknown} data data
+				 * @returns {void}
+				 */
+				const failed = (err: Error, data: unknown) => {
+					this.redact(false);
+					this.log('warn', 'authentication failed', {
+						command: 'AUTH',
+						mechanism: sasl.name,
+					});
+					this.loggedin = false;
+					this.close(); // if auth is bad, close the connection, it won't get better by itself
+
+					if (session.password) {
+						err.message = err.message.replace(session.password, 'REDACTED');
 					}
-				}
-			};
 
-			/**
-			 * @param {Error} err err
-			 * @param {unknown} data data
-			 * @param {string} msg msg
-			 * @returns {void}
-			 */
-			const attemptUser = (err: Error, data: unknown) => {
-				if (err) {
-					failed(err, data);
-				} else {
-					if (method === AUTH_METHODS.LOGIN) {
-						this.command(
-							Buffer.from(login.user()).toString('base64'),
-							attempt,
-							[334]
+					// the rejected command may be an encoded credential
+					if (err instanceof SMTPError && err.command != null) {
+						err.command = 'AUTH';
+						err.message = err.message.replace(
+							/^bad response on command '[^']*'/,
+							"bad response on command 'AUTH'"
 						);
 					}
-				}
-			};
 
-			switch (method) {
-				case AUTH_METHODS['CRAM-MD5']:
-					this.command(`AUTH  ${AUTH_METHODS['CRAM-MD5']}`, attempt, [334]);
-					break;
-				case AUTH_METHODS.LOGIN:
-					this.command(`AUTH ${AUTH_METHODS.LOGIN}`, attemptUser, [334]);
-					break;
-				case AUTH_METHODS.PLAIN:
-					this.command(
-						`AUTH ${AUTH_METHODS.PLAIN} ${encodePlain()}`,
-						response,
-						[235, 503]
-					);
-					break;
-				case AUTH_METHODS.XOAUTH2:
-					this.command(
-						`AUTH ${AUTH_METHODS.XOAUTH2} ${encodeXoauth2()}`,
-						response,
-						[235, 503]
-					);
-					break;
-				default:
 					caller(
 						callback,
 						SMTPError.create(
-							'no form of authorization supported',
-							SMTPErrorStates.AUTHNOTSUPPORTED,
-							null,
+							'authorization.failed',
+							SMTPErrorStates.AUTHFAILED,
+							err,
 							data
 						)
 					);
-					break;
+				};
+
+				/**
+				 * @see https://tools.ietf.org/html/rfc4954#section-4
+				 * @param {?Error} err err
+				 * @param {string} [data] data
+				 * @param {string} [msg] msg
+				 * @param {SMTPReply} [reply] reply
+				 * @returns {void}
+				 */
+				const exchange: SMTPReplyCallback = (err, data, msg, reply) => {
+					if (err) {
+						failed(err, data);
+					} else if (String(data).startsWith('334')) {
+						const challenge = Buffer.from(msg ?? '', 'base64').toString('utf8');
+						sasl.challenge(session, challenge, (err, response) => {
+							if (err && response != null) {
+								this.command(
+									encode(response),
+									() => failed(err, data),
+									[235, 503]
+								);
+							} else if (err) {
+								failed(err, data);
+							} else {
+								this.command(encode(response ?? ''), exchange, [235, 503, 334]);
+							}
+						});
+					} else {
+						this.redact(false);
+						const incomplete = sasl.complete?.(session) ?? null;
+						if (incomplete) {
+							failed(incomplete, data);
+						} else {
+							this.loggedin = true;
+							this.emit('authenticated', {
+								user: session.user,
+								mechanism: sasl.name,
+							});
+							caller(callback, null, data, msg, reply);
+						}
+					}
+				};
+
+				const initial = sasl.initialResponse(session);
+				this.redact(true);
+				this.command(
+					initial == null
+						? `AUTH ${sasl.name}`
+						: `AUTH ${sasl.name} ${initial === '' ? '=' : encode(initial)}`,
+					exchange,
+					[235, 503, 334]
+				);
+			};
+
+			if (this.credentials != null && user == null && password == null) {
+				this.credentials({ refresh: options.refresh === true }).then(
+					authenticate,
+					(err: Error) => {
+						this.close();
+						caller(
+							callback,
+							SMTPError.create(
+								'could not obtain credentials',
+								SMTPErrorStates.AUTHFAILED,
+								err
+							)
+						);
+					}
+				);
+			} else {
+				authenticate({ user: login.user(), password: login.password() });
 			}
 		};
 
@@ -897,12 +1602,14 @@ export class SMTPConnection extends EventEmitter {
 	 * @returns {void}
 	 */
 	public close(force = false) {
+		const sock = this.sock;
+
 		if (this.sock) {
 			if (force) {
-				this.log('smtp connection destroyed!');
+				this.log('debug', 'smtp connection destroyed');
 				this.sock.destroy();
 			} else {
-				this.log('smtp connection closed.');
+				this.log('debug', 'smtp connection closed');
 				this.sock.end();
 			}
 		}
@@ -914,24 +1621,159 @@ export class SMTPConnection extends EventEmitter {
 
 		this._state = SMTPState.NOTCONNECTED;
 		this._secure = false;
+		this.redacting = false;
 		this.sock = null;
+		this.responseHandlers = [];
 		this.features = null;
-		this.loggedin = !(this.user() && this.password());
+		this.loggedin = !((this.user() && this.password()) || this.credentials);
+
+		if (sock != null) {
+			this.emit('close');
+		}
 	}
 
 	/**
 	 * @public
-	 * @param {function(...any[]): void} [callback] function to call after response
+	 * @param {SMTPReplyCallback} [callback] function to call after response
 	 * @returns {void}
 	 */
-	public quit(callback?: (...rest: any[]) => void) {
+	public quit(callback?: SMTPReplyCallback) {
 		this.command(
 			'quit',
-			(err, data) => {
-				caller(callback, err, data);
+			(err, ...reply) => {
+				caller(callback, err, ...reply);
 				this.close();
 			},
 			[221, 250]
 		);
 	}
+
+	/**
+	 * @public
+	 * @param {number} [port] the port to use for the connection
+	 * @param {string} [host] the hostname to use for the connection
+	 * @param {ConnectOptions} [options={}] the options
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the greeting of the server
+	 */
+	public connectAsync(port?: number, host?: string, options?: ConnectOptions) {
+		return awaitReply((callback) =>
+			this.connect(callback, port, host, options)
+		);
+	}
+
+	/**
+	 * @public
+	 * @param {string} cmd command to issue
+	 * @param {(number[] | number)} [codes=[250]] the reply codes that are not an error
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public commandAsync(cmd: string, codes?: number[] | number) {
+		return awaitReply((callback) => this.command(cmd, callback, codes));
+	}
+
+	/**
+	 * @public
+	 * @param {string} [domain] the domain to associate with the 'helo' request
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public heloAsync(domain?: string) {
+		return awaitReply((callback) => this.helo(callback, domain));
+	}
+
+	/**
+	 * @public
+	 * @param {string} [domain] the domain to associate with the 'ehlo' request
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server, after any upgrade required by the `tlsPolicy`
+	 */
+	public ehloAsync(domain?: string) {
+		return awaitReply((callback) => this.ehlo(callback, domain));
+	}
+
+	/**
+	 * @public
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server, once the connection is encrypted
+	 */
+	public starttlsAsync() {
+		return awaitReply((callback) => this.starttls(callback));
+	}
+
+	/**
+	 * @public
+	 * @param {string} [user] the username to authenticate with
+	 * @param {string} [password] the password for the authentication
+	 * @param {{ method: string, domain: string, refresh: boolean }} [options] login options
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server to the authentication
+	 */
+	public loginAsync(
+		user?: string,
+		password?: string,
+		options?: { method?: string; domain?: string; refresh?: boolean }
+	) {
+		return awaitReply((callback) =>
+			this.login(callback, user, password, options)
+		);
+	}
+
+	/**
+	 * @public
+	 * @param {string} from the sender
+	 * @param {string[]} [params=[]] esmtp parameters to append to the command
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public mailAsync(from: string, params?: string[]) {
+		return awaitReply((callback) => this.mail(callback, from, params));
+	}
+
+	/**
+	 * @public
+	 * @param {string} to the receiver
+	 * @param {string[]} [params=[]] esmtp parameters to append to the command
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public rcptAsync(to: string, params?: string[]) {
+		return awaitReply((callback) => this.rcpt(callback, to, params));
+	}
+
+	/**
+	 * @public
+	 * @description the message is then sent with `message`, and ended with `commandAsync('\r\n.')`.
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public dataAsync() {
+		return awaitReply((callback) => this.data(callback));
+	}
+
+	/**
+	 * @public
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public rsetAsync() {
+		return awaitReply((callback) => this.rset(callback));
+	}
+
+	/**
+	 * @public
+	 * @param {string} address the address to validate
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public verifyAsync(address: string) {
+		return awaitReply((callback) => this.verify(address, callback));
+	}
+
+	/**
+	 * @public
+	 * @param {string} address the mailing list to expand
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server
+	 */
+	public expnAsync(address: string) {
+		return awaitReply((callback) => this.expn(address, callback));
+	}
+
+	/**
+	 * @public
+	 * @returns {Promise<SMTPReply>} a promise that resolves to the reply of the server, before the connection is closed
+	 */
+	public quitAsync() {
+		return awaitReply((callback) => this.quit(callback));
+	}
 }
@@ -0,0 +1,143 @@
+import { Transform } from 'stream';
+import type { TransformCallback } from 'stream';
+
+import { SMTPError, SMTPErrorStates } from './error.js';
+
+/**
+ * the most octets in a line of a message, without its CRLF
+ * @see https://tools.ietf.org/html/rfc5321#section-4.5.3.1.6
+ */
+export const MAX_LINE_LENGTH = 998 as const;
+
+/**
+ * what to do with a line of the message that is longer than `MAX_LINE_LENGTH`
+ *
+ * - `wrap`: break the line, which changes the content of the message
+ * - `reject`: fail with `SMTPErrorStates.LINETOOLONG`
+ */
+export type SMTPLongLines = 'wrap' | 'reject';
+
+export interface SMTPDataEncoderOptions {
+	longLines: SMTPLongLines;
+}
+
+const CR = 0x0d as const;
+const LF = 0x0a as const;
+const DOT = 0x2e as const;
+
+/**
+ * @param {number} byte the first byte of a utf-8 sequence
+ * @returns {number} the number of bytes in the sequence
+ */
+function sequenceLength(byte: number) {
+	return byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+}
+
+/**
+ * Encodes a message for DATA: every line ends with CRLF, and every line that starts with a period gets another one.
+ *
+ * Line endings that are split across chunks are handled, so the message can be written in chunks of any size.
+ *
+ * @see https://tools.ietf.org/html/rfc5321#section-4.5.2
+ */
+export class SMTPDataEncoder extends Transform {
+	public readonly longLines: SMTPLongLines = 'wrap';
+
+	private lineLength = 0;
+	private carriageReturn = false;
+
+	/**
+	 * @param {Partial<SMTPDataEncoderOptions>} [options] options
+	 */
+	constructor({ longLines }: Partial<SMTPDataEncoderOptions> = {}) {
+		super();
+
+		if (longLines === 'wrap' || longLines === 'reject') {
+			this.longLines = longLines;
+		}
+	}
+
+	/**
+	 * @param {string | Buffer} chunk a part of the message
+	 * @param {BufferEncoding} _encoding the encoding of a string chunk
+	 * @param {TransformCallback} callback receives the encoded part
+	 * @returns {void}
+	 */
+	public _transform(
+		chunk: string | Buffer,
+		_encoding: BufferEncoding,
+		callback: TransformCallback
+	) {
+		const input = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+		// a byte may follow a CRLF and a period added for it
+		const output = Buffer.allocUnsafe(input.length * 4);
+		let length = 0;
+
+		/**
+		 * @returns {void}
+		 */
+		const newline = () => {
+			output[length++] = CR;
+			output[length++] = LF;
+			this.lineLength = 0;
+		};
+
+		for (let i = 0; i < input.length; i++) {
+			const byte = input[i];
+
+			if (this.carriageReturn) {
+				this.carriageReturn = false;
+				newline();
+				if (byte === LF) {
+					continue;
+				}
+			}
+
+			if (byte === CR) {
+				this.carriageReturn = true;
+				continue;
+			} else if (byte === LF) {
+				newline();
+				continue;
+			}
+
+			// a wrapped line never splits a utf-8 sequence
+			if (this.lineLength + sequenceLength(byte) > MAX_LINE_LENGTH) {
+				if (this.longLines === 'reject') {
+					callback(
+						SMTPError.create(
+							`message has a line longer than ${MAX_LINE_LENGTH} octets`,
+							SMTPErrorStates.LINETOOLONG
+						)
+					);
+					return;
+				}
+
+				newline();
+			}
+
+			if (this.lineLength === 0 && byte === DOT) {
+				output[length++] = DOT;
+				this.lineLength++;
+			}
+
+			output[length++] = byte;
+			this.lineLength++;
+		}
+
+		callback(null, output.subarray(0, length));
+	}
+
+	/**
+	 * @param {TransformCallback} callback receives the rest of the message
+	 * @returns {void}
+	 */
+	public _flush(callback: TransformCallback) {
+		if (this.carriageReturn) {
+			this.carriageReturn = false;
+			callback(null, Buffer.from([CR, LF]));
+		} else {
+			callback();
+		}
+	}
+}
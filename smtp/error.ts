@@ -1,3 +1,6 @@
+import type { SMTPReply } from './response.js';
+import type { SMTPTranscriptEntry } from './transcript.js';
+
 /**
  * @readonly
  * @enum
@@ -13,13 +16,73 @@ export const SMTPErrorStates = {
 	CONNECTIONCLOSED: 8,
 	CONNECTIONENDED: 9,
 	CONNECTIONAUTH: 10,
+	MESSAGETOOLARGE: 11,
+	UTF8NOTSUPPORTED: 12,
+	DELIVERYFAILED: 13,
+	PROXYFAILED: 14,
+	PROXYAUTHFAILED: 15,
+	PROXYREFUSED: 16,
+	STARTTLSNOTSUPPORTED: 17,
+	TLSFAILED: 18,
+	PINMISMATCH: 19,
+	RETRYLATER: 20,
+	LINETOOLONG: 21,
 } as const;
 
+/**
+ * @see https://tools.ietf.org/html/rfc3463#section-3.1
+ */
+export type SMTPStatusClass = 'success' | 'transient' | 'permanent';
+
+export interface SMTPRecipientStatus {
+	/**
+	 * the address of the recipient
+	 */
+	address: string;
+	/**
+	 * why the message was not delivered to the recipient, if it was not
+	 */
+	error: Error | null;
+}
+
 export class SMTPError extends Error {
 	public code: number | null = null;
 	public smtp: unknown = null;
 	public previous: Error | null = null;
 
+	/**
+	 * the three-digit reply code sent by the server
+	 */
+	public responseCode: number | null = null;
+	/**
+	 * the enhanced status code sent by the server (e.g. `5.1.1`)
+	 */
+	public enhancedCode: string | null = null;
+	/**
+	 * whether the reply reported success, a transient failure or a permanent failure
+	 */
+	public statusClass: SMTPStatusClass | null = null;
+	/**
+	 * the command the server replied to
+	 */
+	public command: string | null = null;
+	/**
+	 * the text of every line of the reply, without the codes
+	 */
+	public responseText: string | null = null;
+	/**
+	 * for lmtp, whether the message was delivered to each recipient
+	 */
+	public recipients: SMTPRecipientStatus[] | null = null;
+	/**
+	 * the conversation that led to the error, when the `transcript` option is set
+	 */
+	public transcript: SMTPTranscriptEntry[] | null = null;
+	/**
+	 * how many milliseconds the server should be given before the command is retried, when it asked for a retry
+	 */
+	public retryAfter: number | null = null;
+
 	/**
 	 * @protected
 	 * @param {string} message error message
@@ -52,6 +115,59 @@ export class SMTPError extends Error {
 			err.previous = error;
 		}
 
+		// keep the details of the reply that caused the wrapped error
+		if (error instanceof SMTPError) {
+			err.responseCode = error.responseCode;
+			err.enhancedCode = error.enhancedCode;
+			err.statusClass = error.statusClass;
+			err.command = error.command;
+			err.responseText = error.responseText;
+			err.recipients = error.recipients;
+			err.transcript = error.transcript;
+			err.retryAfter = error.retryAfter;
+		}
+
+		return err;
+	}
+
+	/**
+	 * @see https://tools.ietf.org/html/rfc3463
+	 * @param {string} message error message
+	 * @param {number} code smtp error state
+	 * @param {SMTPReply} reply the reply from the server
+	 * @param {string} [command] the command the server replied to
+	 * @returns {SMTPError} error
+	 */
+	public static fromReply(
+		message: string,
+		code: number,
+		reply: SMTPReply,
+		command?: string
+	) {
+		const err = SMTPError.create(message, code, null, reply.data);
+		const statusClass =
+			reply.enhancedCode?.[0] ?? String(reply.code).substring(0, 1);
+
+		err.responseCode = reply.code;
+		err.enhancedCode = reply.enhancedCode;
+		err.statusClass =
+			statusClass === '5'
+				? 'permanent'
+				: statusClass === '4'
+				? 'transient'
+				: 'success';
+		err.responseText = reply.lines
+			.map((line) =>
+				reply.enhancedCode
+					? line.replace(reply.enhancedCode, '').trim()
+					: line.trim()
+			)
+			.join('\n');
+
+		if (command) {
+			err.command = command;
+		}
+
 		return err;
 	}
 }
@@ -0,0 +1,88 @@
+export type SMTPLogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+export interface SMTPLogFields {
+	host?: string;
+	port?: number;
+	/**
+	 * the verb of the command the entry is about, e.g. `RCPT`
+	 */
+	command?: string;
+	/**
+	 * identifies the connection, which changes each time it (re)connects
+	 */
+	connectionId?: string;
+	/**
+	 * the `Message-ID` of the message the entry is about
+	 */
+	messageId?: string;
+	[field: string]: unknown;
+}
+
+export type SMTPLogMethod = (message: string, fields: SMTPLogFields) => void;
+
+export type SMTPLogger = Record<SMTPLogLevel, SMTPLogMethod>;
+
+/**
+ * the levels in increasing order of severity
+ */
+export const SMTP_LOG_LEVELS: readonly SMTPLogLevel[] = [
+	'trace',
+	'debug',
+	'info',
+	'warn',
+	'error',
+];
+
+/**
+ * @param {function(SMTPLogLevel): SMTPLogMethod} method returns the method for a level
+ * @returns {SMTPLogger} logger
+ */
+function createLogger(method: (level: SMTPLogLevel) => SMTPLogMethod) {
+	return SMTP_LOG_LEVELS.reduce((logger, level) => {
+		logger[level] = method(level);
+		return logger;
+	}, {} as SMTPLogger);
+}
+
+/**
+ * @returns {SMTPLogger} a logger that prints every entry to the console
+ */
+export function createConsoleLogger() {
+	return createLogger(
+		(level) => (message, fields) =>
+			console.log(`[${level}] ${message}`, JSON.stringify(fields))
+	);
+}
+
+/**
+ * @param {function(...any[]): void} log a function that receives the message of each entry
+ * @returns {SMTPLogger} a logger that passes every entry to the function
+ */
+export function adaptFunctionLogger(log: (...args: any[]) => void) {
+	return createLogger(() => (message) => log(message));
+}
+
+/**
+ * @param {object} logger a pino (or bunyan) style logger, whose methods take the fields first
+ * @returns {SMTPLogger} logger
+ */
+export function adaptPinoLogger(
+	logger: Record<SMTPLogLevel, (fields: SMTPLogFields, message: string) => void>
+) {
+	return createLogger(
+		(level) => (message, fields) => logger[level](fields, message)
+	);
+}
+
+/**
+ * @param {object} logger a winston style logger, whose `log` method takes the level, message and fields; `trace` is logged as `silly`
+ * @returns {SMTPLogger} logger
+ */
+export function adaptWinstonLogger(logger: {
+	log: (level: string, message: string, fields: SMTPLogFields) => void;
+}) {
+	return createLogger(
+		(level) => (message, fields) =>
+			logger.log(level === 'trace' ? 'silly' : level, message, fields)
+	);
+}
@@ -10,7 +10,7 @@ import { hostname } from 'os';
 import { Stream } from 'stream';
 import type { Readable } from 'stream';
 
-import { addressparser } from './address.js';
+import { addressparser, convertAddressToASCII } from './address.js';
 import { getRFC2822Date } from './date.js';
 import { mimeWordEncode } from './mime.js';
 
@@ -62,6 +62,41 @@ export interface MessageAttachment {
 	method?: string;
 }
 
+export interface MessageStreamOptions {
+	/**
+	 * whether raw utf-8 may be used in headers and addresses (SMTPUTF8)
+	 */
+	utf8: boolean;
+	/**
+	 * whether the text body may be sent as 8bit (8BITMIME)
+	 */
+	eightBit: boolean;
+	/**
+	 * whether attachments may be sent as raw binary instead of base64 (BINARYMIME).
+	 * binary parts are emitted as buffers, so the output can't be read as a string.
+	 */
+	binary: boolean;
+}
+
+export interface MessageDSN {
+	/**
+	 * whether a bounce should return the full message or only its headers
+	 */
+	ret?: 'FULL' | 'HDRS';
+	/**
+	 * an identifier for the message that is included in every notification
+	 */
+	envid?: string;
+	/**
+	 * the delivery events to be notified of, or `NEVER`
+	 */
+	notify?: ('SUCCESS' | 'FAILURE' | 'DELAY')[] | 'NEVER';
+	/**
+	 * whether to include each recipient's original address in its notification
+	 */
+	orcpt?: boolean;
+}
+
 export interface MessageHeaders {
 	[index: string]:
 		| boolean
@@ -70,7 +105,8 @@ export interface MessageHeaders {
 		| null
 		| undefined
 		| MessageAttachment
-		| MessageAttachment[];
+		| MessageAttachment[]
+		| MessageDSN;
 	'content-type'?: string;
 	'message-id'?: string;
 	'return-path'?: string | null;
@@ -82,6 +118,7 @@ export interface MessageHeaders {
 	subject: string;
 	text: string | null;
 	attachment?: MessageAttachment | MessageAttachment[];
+	dsn?: MessageDSN;
 }
 
 let counter = 0;
@@ -108,6 +145,10 @@ function convertPersonToAddress(person: string | string[]) {
 		.join(', ');
 }
 
+function isASCII(text: string) {
+	return /[\u0080-\uffff]/.test(text) === false;
+}
+
 function convertDashDelimitedTextToSnakeCase(text: string) {
 	return text
 		.toLowerCase()
@@ -124,6 +165,7 @@ export class Message {
 	};
 	public readonly content: string = 'text/plain; charset=utf-8';
 	public readonly text?: string;
+	public readonly dsn: MessageDSN | null = null;
 	public alternative: MessageAttachment | null = null;
 
 	/**
@@ -133,8 +175,10 @@ export class Message {
 	 * - The `from` field is required.
 	 * - At least one `to`, `cc`, or `bcc` header is also required.
 	 * - You can also add whatever other headers you want.
+	 * - The `dsn` field requests delivery status notifications and is not sent as a header.
 	 *
 	 * @see https://tools.ietf.org/html/rfc2822
+	 * @see https://tools.ietf.org/html/rfc3461
 	 * @param {Partial<MessageHeaders>} headers Message headers
 	 */
 	constructor(headers: Partial<MessageHeaders>) {
@@ -156,6 +200,8 @@ export class Message {
 				} else if (attachment != null) {
 					this.attach(attachment);
 				}
+			} else if (header === 'dsn' && typeof headers[header] === 'object') {
+				this.dsn = headers[header] as MessageDSN;
 			} else if (header === 'subject') {
 				this.header.subject = mimeWordEncode(headers.subject as string);
 			} else if (/^(cc|bcc|to|from)/i.test(header)) {
@@ -260,26 +306,36 @@ export class Message {
 
 	/**
 	 * @public
+	 * @param {Partial<MessageStreamOptions>} [options={}] how the server allows the message to be encoded
 	 * @returns {MessageStream} a stream of the current message
 	 */
-	public stream() {
-		return new MessageStream(this);
+	public stream(options: Partial<MessageStreamOptions> = {}) {
+		return new MessageStream(this, options);
 	}
 
 	/**
 	 * @public
 	 * @param {function(Error, string): void} callback the function to call with the error and buffer
+	 * @param {Partial<MessageStreamOptions>} [options={}] how the server allows the message to be encoded
 	 * @returns {void}
 	 */
-	public read(callback: (err: Error, buffer: string) => void) {
+	public read(
+		callback: (err: Error, buffer: string) => void,
+		options: Partial<MessageStreamOptions> = {}
+	) {
 		let buffer = '';
-		const str = this.stream();
+		const str = this.stream(options);
 		str.on('data', (data) => (buffer += data));
 		str.on('end', (err) => callback(err, buffer));
 		str.on('error', (err) => callback(err, buffer));
 	}
 
-	public readAsync() {
+	/**
+	 * @public
+	 * @param {Partial<MessageStreamOptions>} [options={}] how the server allows the message to be encoded
+	 * @returns {Promise<string>} a promise that resolves to the rendered message
+	 */
+	public readAsync(options: Partial<MessageStreamOptions> = {}) {
 		return new Promise<string>((resolve, reject) => {
 			this.read((err, buffer) => {
 				if (err != null) {
@@ -287,7 +343,7 @@ export class Message {
 				} else {
 					resolve(buffer);
 				}
-			});
+			}, options);
 		});
 	}
 }
@@ -297,13 +353,26 @@ class MessageStream extends Stream {
 	paused = false;
 	buffer: Buffer | null = Buffer.alloc(MIMECHUNK * 24 * 7);
 	bufferIndex = 0;
+	options: MessageStreamOptions;
 
 	/**
+	 * By default the message is rendered as if the server supports both 8BITMIME and SMTPUTF8, but not BINARYMIME.
+	 *
 	 * @param {Message} message the message to stream
+	 * @param {Partial<MessageStreamOptions>} [options={}] how the server allows the message to be encoded
 	 */
-	constructor(private message: Message) {
+	constructor(
+		private message: Message,
+		{
+			utf8 = true,
+			eightBit = true,
+			binary = false,
+		}: Partial<MessageStreamOptions> = {}
+	) {
 		super();
 
+		this.options = { utf8, eightBit, binary };
+
 		/**
 		 * @param {string} [data] the data to output
 		 * @param {Function} [callback] the function
@@ -343,21 +412,38 @@ class MessageStream extends Stream {
 					}
 				} // we need to clean out the buffer, it is getting full
 				else {
-					if (!this.paused) {
-						this.emit(
-							'data',
-							this.buffer.toString('utf-8', 0, this.bufferIndex)
-						);
-						this.buffer.write(data, 0);
-						this.bufferIndex = bytes;
-					} else {
-						// we can't empty out the buffer, so let's wait till we resume before adding to it
-						this.once('resume', () => output(data));
-					}
+					// even while paused, as deferring the data would reorder it; pausing stops the reads instead
+					this.emit('data', this.buffer.toString('utf-8', 0, this.bufferIndex));
+					this.buffer.write(data, 0);
+					this.bufferIndex = bytes;
+				}
+			}
+		};
+
+		/**
+		 * @param {Buffer} data the binary data to output as-is
+		 * @returns {void}
+		 */
+		const outputBinary = (data: Buffer) => {
+			if (this.buffer != null) {
+				if (this.bufferIndex) {
+					this.emit('data', this.buffer.toString('utf-8', 0, this.bufferIndex));
+					this.bufferIndex = 0;
 				}
+
+				this.emit('data', data);
 			}
 		};
 
+		/**
+		 * @param {MessageAttachment} attachment the attachment to check
+		 * @returns {boolean} whether the attachment content is sent as raw binary
+		 */
+		const isBinary = (attachment: MessageAttachment) =>
+			this.options.binary &&
+			!attachment.encoded &&
+			attachment.headers?.['content-transfer-encoding'] == null;
+
 		/**
 		 * @param {MessageAttachment} [attachment] the attachment whose headers you would like to output
 		 * @returns {void}
@@ -369,7 +455,7 @@ class MessageStream extends Stream {
 					attachment.type +
 					(attachment.charset ? `; charset=${attachment.charset}` : '') +
 					(attachment.method ? `; method=${attachment.method}` : ''),
-				'content-transfer-encoding': 'base64',
+				'content-transfer-encoding': isBinary(attachment) ? 'binary' : 'base64',
 				'content-disposition': attachment.inline
 					? 'inline'
 					: `attachment; filename="${mimeWordEncode(
@@ -419,6 +505,7 @@ class MessageStream extends Stream {
 		) => {
 			const chunk = MIME64CHUNK * 16;
 			const buffer = Buffer.alloc(chunk);
+			const binary = isBinary(attachment);
 
 			const inputEncoding =
 				attachment?.headers?.['content-transfer-encoding'] || 'base64';
@@ -450,17 +537,34 @@ class MessageStream extends Stream {
 						);
 						return;
 					}
-					// guaranteed to be encoded without padding unless it is our last read
-					outputBase64(buffer.toString(encoding, 0, bytes), () => {
+					const read = () => {
 						if (bytes == chunk) {
-							// we read a full chunk, there might be more
-							readFile(fd, buffer, 0, chunk, null, readBytes);
+							// we read a full chunk, there might be more, which is read once the stream is resumed
+							if (this.paused) {
+								this.once('resume', () =>
+									readFile(fd, buffer, 0, chunk, null, readBytes)
+								);
+							} else {
+								readFile(fd, buffer, 0, chunk, null, readBytes);
+							}
 						} // that was the last chunk, we are done reading the file
 						else {
+							if (binary) {
+								output(CRLF);
+							}
 							this.removeListener('error', closeFileSync);
 							closeFile(fd, next);
 						}
-					});
+					};
+
+					if (binary) {
+						// the buffer is reused for the next read, so ship out a copy
+						outputBinary(Buffer.from(buffer.subarray(0, bytes)));
+						read();
+					} else {
+						// guaranteed to be encoded without padding unless it is our last read
+						outputBase64(buffer.toString(encoding, 0, bytes), read);
+					}
 				};
 				readFile(fd, buffer, 0, chunk, null, readBytes);
 				this.once('error', closeFileSync);
@@ -481,17 +585,30 @@ class MessageStream extends Stream {
 			const { stream } = attachment;
 			if (stream?.readable) {
 				let previous = Buffer.alloc(0);
+				const binary = isBinary(attachment);
+				const pause = () => stream.pause();
+				const resume = () => stream.resume();
 
 				stream.resume();
 
 				stream.on('end', () => {
-					outputBase64(previous.toString('base64'), callback);
-					this.removeListener('pause', stream.pause);
-					this.removeListener('resume', stream.resume);
-					this.removeListener('error', stream.resume);
+					if (binary) {
+						output(CRLF);
+						callback();
+					} else {
+						outputBase64(previous.toString('base64'), callback);
+					}
+					this.removeListener('pause', pause);
+					this.removeListener('resume', resume);
+					this.removeListener('error', resume);
 				});
 
 				stream.on('data', (buff) => {
+					if (binary) {
+						outputBinary(Buffer.isBuffer(buff) ? buff : Buffer.from(buff));
+						return;
+					}
+
 					// do we have bytes from a previous stream data event?
 					let buffer = Buffer.isBuffer(buff) ? buff : Buffer.from(buff);
 
@@ -510,9 +627,14 @@ class MessageStream extends Stream {
 					outputBase64(buffer.toString('base64', 0, buffer.length - padded));
 				});
 
-				this.on('pause', stream.pause);
-				this.on('resume', stream.resume);
-				this.on('error', stream.resume);
+				this.on('pause', pause);
+				this.on('resume', resume);
+				this.on('error', resume);
+
+				// reading the data switched the stream to flowing
+				if (this.paused) {
+					stream.pause();
+				}
 			} else {
 				this.emit('error', { message: 'stream not readable' });
 			}
@@ -588,6 +710,13 @@ class MessageStream extends Stream {
 			attachment: MessageAttachment,
 			callback: () => void
 		) => {
+			if (isBinary(attachment)) {
+				outputBinary(Buffer.from(attachment.data ?? ''));
+				output(CRLF);
+				callback();
+				return;
+			}
+
 			outputBase64(
 				attachment.encoded
 					? attachment.data ?? ''
@@ -602,18 +731,30 @@ class MessageStream extends Stream {
 		 */
 		const outputText = (message: Message) => {
 			let data: string[] = [];
+			const text = message.text || '';
+			const encoding = isASCII(text)
+				? '7bit'
+				: this.options.eightBit
+				? '8bit'
+				: 'base64';
 
 			data = data.concat([
 				'Content-Type:',
 				message.content,
 				CRLF,
-				'Content-Transfer-Encoding: 7bit',
+				`Content-Transfer-Encoding: ${encoding}`,
 				CRLF,
 			]);
 			data = data.concat(['Content-Disposition: inline', CRLF, CRLF]);
-			data = data.concat([message.text || '', CRLF, CRLF]);
 
-			output(data.join(''));
+			if (encoding === 'base64') {
+				output(data.join(''));
+				outputBase64(Buffer.from(text).toString('base64'));
+				output(CRLF);
+			} else {
+				data = data.concat([text, CRLF, CRLF]);
+				output(data.join(''));
+			}
 		};
 
 		/**
@@ -702,6 +843,25 @@ class MessageStream extends Stream {
 			}
 		};
 
+		/**
+		 * @param {string} header the header name
+		 * @param {string} value the header value
+		 * @returns {string} the value, encoded if the server can't accept raw utf-8 headers
+		 */
+		const encodeHeader = (header: string, value: string) => {
+			if (this.options.utf8 || isASCII(value)) {
+				return value;
+			} else if (/^(cc|to|from|sender|reply-to)$/i.test(header)) {
+				// display names are already encoded, so only the domains can remain
+				return value.replace(
+					/[^\s<>,;"]+@[^\s<>,;"]+/g,
+					(address) => convertAddressToASCII(address) ?? address
+				);
+			} else {
+				return mimeWordEncode(value);
+			}
+		};
+
 		/**
 		 * @returns {void}
 		 */
@@ -717,7 +877,7 @@ class MessageStream extends Stream {
 					data = data.concat([
 						convertDashDelimitedTextToSnakeCase(header),
 						': ',
-						this.message.header[header] as string,
+						encodeHeader(header, String(this.message.header[header])),
 						CRLF,
 					]);
 				}
@@ -1,43 +1,159 @@
-import { SMTPError, SMTPErrorStates } from './error.js';
+import { StringDecoder } from 'string_decoder';
 import type { Socket } from 'net';
+import type { Duplex } from 'stream';
 import type { TLSSocket } from 'tls';
 
+import { SMTPError, SMTPErrorStates } from './error.js';
+
+export interface SMTPReply {
+	/**
+	 * the three-digit reply code
+	 */
+	code: number;
+	/**
+	 * the enhanced status code at the start of the first line (e.g. `2.1.0`), if any
+	 */
+	enhancedCode: string | null;
+	/**
+	 * the text of each line, without the reply code
+	 */
+	lines: string[];
+	/**
+	 * the text of every line, joined by newlines
+	 */
+	message: string;
+	/**
+	 * the whole reply, with its line endings normalized to newlines
+	 */
+	data: string;
+}
+
+/**
+ * Assembles server replies from the data received on a connection, which may end anywhere:
+ * in the middle of a line, between the lines of a multi-line reply, or after several replies.
+ *
+ * @see https://tools.ietf.org/html/rfc5321#section-4.2
+ */
+export class SMTPReplyParser {
+	protected decoder = new StringDecoder('utf8');
+	protected buffer = '';
+	protected lines: string[] = [];
+	protected code: string | null = null;
+
+	/**
+	 * @public
+	 * @param {string | Buffer} chunk data received from the server
+	 * @returns {SMTPReply[]} every reply completed by the chunk
+	 * @throws {SMTPError} if the server sends a line that is not part of a valid reply
+	 */
+	public push(chunk: string | Buffer) {
+		const replies: SMTPReply[] = [];
+
+		this.buffer +=
+			typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+		let end = this.buffer.indexOf('\n');
+		while (end !== -1) {
+			const line = this.buffer.substring(0, end).replace(/\r$/, '');
+			this.buffer = this.buffer.substring(end + 1);
+
+			const reply = this.parseLine(line);
+			if (reply != null) {
+				replies.push(reply);
+			}
+
+			end = this.buffer.indexOf('\n');
+		}
+
+		return replies;
+	}
+
+	/**
+	 * @public
+	 * @description discards any partially received reply
+	 * @returns {void}
+	 */
+	public reset() {
+		this.decoder = new StringDecoder('utf8');
+		this.buffer = '';
+		this.lines = [];
+		this.code = null;
+	}
+
+	/**
+	 * @protected
+	 * @param {string} line a complete line, without its line ending
+	 * @returns {SMTPReply | null} the reply, if the line was its last
+	 */
+	protected parseLine(line: string) {
+		const match = line.match(/^(\d{3})(?:([ -])(.*))?$/);
+
+		if (match == null) {
+			this.reset();
+			throw SMTPError.create(
+				`malformed reply from server: ${line}`,
+				SMTPErrorStates.BADRESPONSE
+			);
+		}
+
+		const [, code, separator = ' ', text = ''] = match;
+
+		if (this.code != null && this.code !== code) {
+			const expected = this.code;
+			this.reset();
+			throw SMTPError.create(
+				`inconsistent reply codes from server: expected ${expected} but got ${code}`,
+				SMTPErrorStates.BADRESPONSE
+			);
+		}
+
+		this.code = code;
+		this.lines.push(text);
+
+		if (separator === '-') {
+			return null;
+		}
+
+		const lines = this.lines;
+		const enhanced = lines[0].match(/^[245]\.\d{1,3}\.\d{1,3}(?=\s|$)/);
+
+		this.lines = [];
+		this.code = null;
+
+		return {
+			code: Number(code),
+			enhancedCode: enhanced?.[0] ?? null,
+			lines,
+			message: lines.join('\n'),
+			data:
+				lines
+					.map(
+						(text, index) =>
+							`${code}${index === lines.length - 1 ? ' ' : '-'}${text}`
+					)
+					.join('\n') + '\n',
+		} as SMTPReply;
+	}
+}
+
 export class SMTPResponseMonitor {
 	public readonly stop: (err?: Error) => void;
+	/**
+	 * resets the idle timer of a stream that is not a socket, as a socket does by itself, when data is written to it
+	 */
+	public readonly touch: () => void;
+	/**
+	 * stops the stream from timing out while the server is not expected to send anything, until `resume` is called
+	 */
+	public readonly suspend: () => void;
+	public readonly resume: () => void;
 
 	constructor(
-		stream: Socket | TLSSocket,
+		stream: Socket | TLSSocket | Duplex,
 		timeout: number,
 		onerror: (err: Error) => void
 	) {
-		let buffer = '';
-
-		const notify = () => {
-			if (buffer.length) {
-				// parse buffer for response codes
-				const line = buffer.replace('\r', '');
-				if (
-					!(
-						line
-							.trim()
-							.split(/\n/)
-							.pop()
-							?.match(/^(\d{3})\s/) ?? false
-					)
-				) {
-					return;
-				}
-
-				const match = line ? line.match(/(\d+)\s?(.*)/) : null;
-				const data =
-					match !== null
-						? { code: match[1], message: match[2], data: line }
-						: { code: -1, data: line };
-
-				stream.emit('response', null, data);
-				buffer = '';
-			}
-		};
+		const parser = new SMTPReplyParser();
 
 		const error = (err: Error) => {
 			stream.emit(
@@ -62,10 +178,30 @@ export class SMTPResponseMonitor {
 			);
 		};
 
+		// only sockets time out by themselves, so other streams are timed out when they stop sending or receiving data
+		let idle: ReturnType<typeof setTimeout> | null = null;
+		let suspended = false;
+		const wait = () => {
+			if (idle != null && suspended === false) {
+				clearTimeout(idle);
+				idle = setTimeout(timedout, timeout);
+			}
+		};
+
 		const watch = (data: string | Buffer) => {
+			wait();
 			if (data !== null) {
-				buffer += data.toString();
-				notify();
+				let replies: SMTPReply[] = [];
+
+				try {
+					replies = parser.push(data);
+				} catch (err) {
+					stream.emit('response', err);
+					return;
+				}
+
+				// pipelined commands can complete several replies at once
+				replies.forEach((reply) => stream.emit('response', null, reply));
 			}
 		};
 
@@ -91,7 +227,40 @@ export class SMTPResponseMonitor {
 			);
 		};
 
+		this.touch = wait;
+
+		this.suspend = () => {
+			suspended = true;
+			if ('setTimeout' in stream) {
+				stream.setTimeout(0);
+			} else if (idle != null) {
+				clearTimeout(idle);
+			}
+		};
+
+		this.resume = () => {
+			if (suspended) {
+				suspended = false;
+				if ('setTimeout' in stream) {
+					stream.setTimeout(timeout);
+				} else {
+					wait();
+				}
+			}
+		};
+
 		this.stop = (err) => {
+			if (idle != null) {
+				clearTimeout(idle);
+				idle = null;
+			}
+
+			// a socket upgraded with starttls must not time out while the secure socket waits for a reply
+			if ('setTimeout' in stream) {
+				stream.setTimeout(0);
+				stream.removeListener('timeout', timedout);
+			}
+
 			stream.removeAllListeners('response');
 			stream.removeListener('data', watch);
 			stream.removeListener('end', end);
@@ -107,6 +276,11 @@ export class SMTPResponseMonitor {
 		stream.on('end', end);
 		stream.on('close', close);
 		stream.on('error', error);
-		stream.setTimeout(timeout, timedout);
+
+		if ('setTimeout' in stream) {
+			stream.setTimeout(timeout, timedout);
+		} else {
+			idle = setTimeout(timedout, timeout);
+		}
 	}
 }
@@ -0,0 +1,131 @@
+import type { SMTPReply } from './response.js';
+
+export interface SMTPRetryMatcher {
+	/**
+	 * the reply codes to match, e.g. `[450, 451]`
+	 */
+	code?: number | number[];
+	/**
+	 * the enhanced status code to match, e.g. `4.7.1`, or a pattern such as `/^4\.7\./`
+	 */
+	enhancedCode?: string | RegExp;
+	/**
+	 * the text to match; a string matches when the text of the reply contains it, ignoring case
+	 */
+	text?: string | RegExp;
+}
+
+export interface SMTPRetryPolicy {
+	/**
+	 * a reply is retried when it matches every field of any of the matchers
+	 */
+	match: SMTPRetryMatcher[];
+	/**
+	 * the most times a command is sent, including the first time
+	 */
+	maxAttempts: number;
+	/**
+	 * how many milliseconds to wait before the first retry
+	 */
+	delay: number;
+	/**
+	 * the factor by which the delay grows with each retry
+	 */
+	backoff: number;
+	/**
+	 * the longest delay, in milliseconds
+	 */
+	maxDelay: number;
+	/**
+	 * the fraction, between 0 and 1, by which each delay varies at random
+	 */
+	jitter: number;
+	/**
+	 * the longest delay, in milliseconds, to keep the connection open for;
+	 * a longer one fails the command with `SMTPErrorStates.RETRYLATER` instead
+	 */
+	holdLimit: number;
+}
+
+/**
+ * retries a greylisted command once, after 300ms
+ */
+export const DEFAULT_RETRY_POLICY: Readonly<SMTPRetryPolicy> = {
+	match: [{ code: [450, 451], text: 'greylist' }],
+	maxAttempts: 2,
+	delay: 300,
+	backoff: 2,
+	maxDelay: 15 * 60 * 1000,
+	jitter: 0,
+	holdLimit: 60 * 1000,
+};
+
+/**
+ * @param {Partial<SMTPRetryPolicy>} [options={}] the fields of the policy to change
+ * @returns {SMTPRetryPolicy} the policy, with the defaults for any field not given
+ */
+export function createRetryPolicy(options: Partial<SMTPRetryPolicy> = {}) {
+	const policy = { ...DEFAULT_RETRY_POLICY };
+
+	if (Array.isArray(options.match)) {
+		policy.match = options.match;
+	}
+
+	(
+		['maxAttempts', 'delay', 'backoff', 'maxDelay', 'holdLimit'] as const
+	).forEach((field) => {
+		const value = options[field];
+		if (typeof value === 'number' && value >= 0) {
+			policy[field] = value;
+		}
+	});
+
+	if (typeof options.jitter === 'number') {
+		policy.jitter = Math.min(Math.max(options.jitter, 0), 1);
+	}
+
+	return policy;
+}
+
+/**
+ * @param {string | RegExp} pattern the pattern
+ * @param {string} text the text to test
+ * @returns {boolean} whether the text matches the pattern, or contains it (ignoring case) if it is a string
+ */
+function matchesText(pattern: string | RegExp, text: string) {
+	return typeof pattern === 'string'
+		? text.toLowerCase().includes(pattern.toLowerCase())
+		: pattern.test(text);
+}
+
+/**
+ * @param {SMTPRetryPolicy} policy the policy
+ * @param {SMTPReply} reply the reply to a command
+ * @returns {boolean} whether the policy retries the command
+ */
+export function matchesRetry(policy: SMTPRetryPolicy, reply: SMTPReply) {
+	return policy.match.some(
+		({ code, enhancedCode, text }) =>
+			(code == null || ([] as number[]).concat(code).includes(reply.code)) &&
+			(enhancedCode == null ||
+				(reply.enhancedCode != null &&
+					(typeof enhancedCode === 'string'
+						? reply.enhancedCode === enhancedCode
+						: enhancedCode.test(reply.enhancedCode)))) &&
+			(text == null || matchesText(text, reply.message))
+	);
+}
+
+/**
+ * @param {SMTPRetryPolicy} policy the policy
+ * @param {number} retry the number of the retry, starting at 1
+ * @returns {number} how many milliseconds to wait before the retry
+ */
+export function retryDelay(policy: SMTPRetryPolicy, retry: number) {
+	const delay = Math.min(
+		policy.delay * Math.pow(policy.backoff, Math.max(retry - 1, 0)),
+		policy.maxDelay
+	);
+	const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+	return Math.round(delay + jitter);
+}
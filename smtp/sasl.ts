@@ -0,0 +1,269 @@
+import { createHash, createHmac, pbkdf2, randomBytes } from 'crypto';
+
+import { SMTPError, SMTPErrorStates } from './error.js';
+
+export interface SASLSession {
+	/**
+	 * the user to authenticate as
+	 */
+	readonly user: string;
+	/**
+	 * the password (or token) of the user
+	 */
+	readonly password: string;
+	/**
+	 * the host the connection authenticates with
+	 */
+	readonly host: string;
+	/**
+	 * the port the connection authenticates with
+	 */
+	readonly port: number;
+	/**
+	 * scratch space for multi-step mechanisms, discarded once the exchange ends
+	 */
+	state: Record<string, unknown>;
+}
+
+/**
+ * @see https://tools.ietf.org/html/rfc4954#section-4
+ */
+export interface SASLMechanism {
+	/**
+	 * the name the server advertises for the mechanism, e.g. `PLAIN`
+	 */
+	readonly name: string;
+	/**
+	 * @param {SASLSession} session the exchange
+	 * @returns {string | null} the (unencoded) initial response, or `null` to wait for the first challenge
+	 */
+	initialResponse(session: SASLSession): string | null;
+	/**
+	 * answers a server challenge. to abort the exchange, pass an error; any response passed
+	 * along with it is sent before failing, for mechanisms that require one (e.g. `OAUTHBEARER`)
+	 *
+	 * @param {SASLSession} session the exchange
+	 * @param {string} challenge the (decoded) server challenge
+	 * @param {function(?Error, string=): void} callback receives the (unencoded) response
+	 * @returns {void}
+	 */
+	challenge(
+		session: SASLSession,
+		challenge: string,
+		callback: (err: Error | null, response?: string) => void
+	): void;
+	/**
+	 * checks that an exchange the server accepted is complete, e.g. that the server proved its identity
+	 *
+	 * @param {SASLSession} session the exchange
+	 * @returns {Error | null} the reason the exchange is incomplete, if any
+	 */
+	complete?(session: SASLSession): Error | null;
+}
+
+const mechanisms = new Map<string, SASLMechanism>();
+
+/**
+ * @param {string} name the name to escape
+ * @returns {string} the name, safe to use in a gs2 header or scram attribute
+ * @see https://tools.ietf.org/html/rfc5801#section-4
+ */
+function encodeSaslName(name: string) {
+	return name.replace(/=/g, '=3D').replace(/,/g, '=2C');
+}
+
+/**
+ * @param {SASLMechanism} mechanism the mechanism to make available to `SMTPConnection#login`
+ * @returns {void}
+ */
+export function registerSASLMechanism(mechanism: SASLMechanism) {
+	mechanisms.set(mechanism.name.toUpperCase(), mechanism);
+}
+
+/**
+ * @param {string} name the name of the mechanism
+ * @returns {SASLMechanism | undefined} the registered mechanism
+ */
+export function getSASLMechanism(name: string) {
+	return mechanisms.get(name.toUpperCase());
+}
+
+registerSASLMechanism({
+	name: 'PLAIN',
+	initialResponse: ({ user, password }) => `\u0000${user}\u0000${password}`,
+	challenge: (_session, _challenge, callback) =>
+		callback(
+			SMTPError.create(
+				'unexpected challenge from server',
+				SMTPErrorStates.AUTHFAILED
+			)
+		),
+});
+
+registerSASLMechanism({
+	name: 'LOGIN',
+	initialResponse: () => null,
+	challenge: (session, _challenge, callback) => {
+		const step = Number(session.state.step ?? 0);
+		session.state.step = step + 1;
+		callback(null, step === 0 ? session.user : session.password);
+	},
+});
+
+registerSASLMechanism({
+	name: 'CRAM-MD5',
+	initialResponse: () => null,
+	challenge: ({ user, password }, challenge, callback) => {
+		const hmac = createHmac('md5', password);
+		hmac.update(challenge);
+		callback(null, `${user} ${hmac.digest('hex')}`);
+	},
+});
+
+/**
+ * the token was rejected: the challenge describes why, and the server
+ * will only fail the exchange after a dummy response
+ *
+ * @see https://tools.ietf.org/html/rfc7628#section-3.2.2
+ * @param {string} challenge the json error challenge
+ * @returns {SMTPError} error
+ */
+function rejectBearer(challenge: string) {
+	let status = 'unknown';
+	let scope = '';
+	try {
+		const error = JSON.parse(challenge);
+		status = error.status ?? status;
+		scope = error.scope ?? scope;
+	} catch {
+		// not a json challenge, the status stays unknown
+	}
+
+	return SMTPError.create(
+		`oauth token rejected: status ${status}${scope ? `, scope ${scope}` : ''}`,
+		SMTPErrorStates.AUTHFAILED
+	);
+}
+
+/**
+ * @see https://developers.google.com/gmail/xoauth2_protocol
+ */
+registerSASLMechanism({
+	name: 'XOAUTH2',
+	initialResponse: ({ user, password }) =>
+		`user=${user}\u0001auth=Bearer ${password}\u0001\u0001`,
+	challenge: (_session, challenge, callback) =>
+		callback(rejectBearer(challenge), ''),
+});
+
+/**
+ * @see https://tools.ietf.org/html/rfc7628#section-3.1
+ */
+registerSASLMechanism({
+	name: 'OAUTHBEARER',
+	initialResponse: ({ user, password, host, port }) =>
+		`n,a=${encodeSaslName(
+			user
+		)},\u0001host=${host}\u0001port=${port}\u0001auth=Bearer ${password}\u0001\u0001`,
+	challenge: (_session, challenge, callback) =>
+		callback(rejectBearer(challenge), '\u0001'),
+});
+
+/**
+ * @see https://tools.ietf.org/html/rfc5802#section-3
+ * @param {'SCRAM-SHA-1' | 'SCRAM-SHA-256'} name the name of the mechanism
+ * @param {'sha1' | 'sha256'} hash the hash function of the mechanism
+ * @returns {SASLMechanism} mechanism
+ */
+function createScramMechanism(
+	name: 'SCRAM-SHA-1' | 'SCRAM-SHA-256',
+	hash: 'sha1' | 'sha256'
+): SASLMechanism {
+	const fail = (message: string) =>
+		SMTPError.create(message, SMTPErrorStates.AUTHFAILED);
+
+	return {
+		name,
+		initialResponse: (session) => {
+			session.state.nonce = randomBytes(24).toString('base64');
+			session.state.firstBare = `n=${encodeSaslName(session.user)},r=${
+				session.state.nonce
+			}`;
+			return `n,,${session.state.firstBare}`;
+		},
+		challenge: (session, challenge, callback) => {
+			if (session.state.signature != null) {
+				// the server sent its signature as a challenge, so it still awaits an (empty) response
+				if (challenge === `v=${session.state.signature}`) {
+					session.state.verified = true;
+					callback(null, '');
+				} else {
+					callback(
+						fail(
+							challenge.startsWith('e=')
+								? `scram authentication failed: ${challenge.substring(2)}`
+								: 'server signature mismatch'
+						)
+					);
+				}
+				return;
+			}
+
+			const attributes = new Map(
+				challenge
+					.split(',')
+					.map((attribute) => [
+						attribute.substring(0, 1),
+						attribute.substring(2),
+					])
+			);
+			const clientNonce = String(session.state.nonce);
+			const nonce = attributes.get('r') ?? '';
+			const salt = Buffer.from(attributes.get('s') ?? '', 'base64');
+			const iterations = Number(attributes.get('i'));
+
+			if (
+				attributes.has('m') ||
+				nonce.length <= clientNonce.length ||
+				nonce.startsWith(clientNonce) === false ||
+				salt.length === 0 ||
+				Number.isInteger(iterations) === false ||
+				iterations < 1
+			) {
+				callback(fail('invalid scram challenge from server'));
+				return;
+			}
+
+			const length = createHash(hash).digest().length;
+			pbkdf2(session.password, salt, iterations, length, hash, (err, key) => {
+				if (err) {
+					callback(err);
+					return;
+				}
+
+				const clientKey = createHmac(hash, key).update('Client Key').digest();
+				const storedKey = createHash(hash).update(clientKey).digest();
+				const serverKey = createHmac(hash, key).update('Server Key').digest();
+				const withoutProof = `c=biws,r=${nonce}`;
+				const authMessage = `${session.state.firstBare},${challenge},${withoutProof}`;
+				const signature = createHmac(hash, storedKey)
+					.update(authMessage)
+					.digest();
+				const proof = Buffer.from(
+					clientKey.map((byte, i) => byte ^ signature[i])
+				);
+
+				session.state.signature = createHmac(hash, serverKey)
+					.update(authMessage)
+					.digest('base64');
+
+				callback(null, `${withoutProof},p=${proof.toString('base64')}`);
+			});
+		},
+		complete: (session) =>
+			session.state.verified === true ? null : fail('server signature missing'),
+	};
+}
+
+registerSASLMechanism(createScramMechanism('SCRAM-SHA-1', 'sha1'));
+registerSASLMechanism(createScramMechanism('SCRAM-SHA-256', 'sha256'));
@@ -0,0 +1,124 @@
+import { createHash, createPublicKey } from 'crypto';
+import type { CipherNameAndProtocol, PeerCertificate, TLSSocket } from 'tls';
+
+/**
+ * the certificate fields that the node typings in use predate
+ */
+type Certificate = PeerCertificate & {
+	pubkey?: Buffer;
+	fingerprint256: string;
+	issuerCertificate?: Certificate;
+};
+
+export interface SMTPPeerCertificate {
+	/**
+	 * the distinguished name of the certificate, e.g. `CN=smtp.example.com`
+	 */
+	subject: string;
+	/**
+	 * the distinguished name of the issuer
+	 */
+	issuer: string;
+	validFrom: string;
+	validTo: string;
+	/**
+	 * the sha-256 fingerprint of the certificate, as colon separated hex
+	 */
+	fingerprint256: string;
+	/**
+	 * the base64 sha-256 digest of the subject public key info, as used by the `pins` option
+	 */
+	spki: string;
+}
+
+export interface SMTPTLSInfo {
+	/**
+	 * the negotiated protocol, e.g. `TLSv1.3`
+	 */
+	protocol: string | null;
+	/**
+	 * the negotiated cipher suite, e.g. `TLS_AES_256_GCM_SHA384`
+	 */
+	cipher: string;
+	/**
+	 * the certificate presented by the server, if any
+	 */
+	certificate: SMTPPeerCertificate | null;
+}
+
+/**
+ * @param {object} [name] the parsed distinguished name
+ * @returns {string} the distinguished name, e.g. `CN=smtp.example.com, O=Example`
+ */
+function formatName(name: PeerCertificate['subject'] | undefined) {
+	return Object.entries(name ?? {})
+		.map(([key, value]) => `${key}=${([] as string[]).concat(value).join('+')}`)
+		.join(', ');
+}
+
+/**
+ * @see https://tools.ietf.org/html/rfc7469#section-2.4
+ * @param {PeerCertificate} certificate the certificate
+ * @returns {string} the base64 sha-256 digest of its subject public key info
+ */
+export function spkiFingerprint(certificate: PeerCertificate) {
+	// `pubkey` is only the key itself, which for an elliptic curve key leaves out the algorithm and curve the spki names
+	const pem = [
+		'-----BEGIN CERTIFICATE-----',
+		...(certificate.raw.toString('base64').match(/.{1,64}/g) ?? []),
+		'-----END CERTIFICATE-----',
+	].join('\n');
+	const spki = createPublicKey(pem).export({ type: 'spki', format: 'der' });
+	return createHash('sha256').update(spki).digest('base64');
+}
+
+/**
+ * @param {TLSSocket} sock a secure socket, once its handshake is complete
+ * @param {string[]} pins base64 sha-256 spki digests, optionally prefixed with `sha256/`
+ * @returns {boolean} whether any certificate of the chain presented by the server matches a pin
+ */
+export function matchesPin(sock: TLSSocket, pins: string[]) {
+	const expected = new Set(pins.map((pin) => pin.replace(/^sha256\//, '')));
+	const seen = new Set<Certificate>();
+
+	let certificate: Certificate | undefined = sock.getPeerCertificate(
+		true
+	) as Certificate;
+	while (certificate?.pubkey != null && seen.has(certificate) === false) {
+		if (expected.has(spkiFingerprint(certificate))) {
+			return true;
+		}
+
+		// a self-signed root is its own issuer
+		seen.add(certificate);
+		certificate = certificate.issuerCertificate;
+	}
+
+	return false;
+}
+
+/**
+ * @param {TLSSocket} sock a secure socket, once its handshake is complete
+ * @returns {SMTPTLSInfo} the negotiated parameters of the connection
+ */
+export function describeTLS(sock: TLSSocket): SMTPTLSInfo {
+	const certificate = sock.getPeerCertificate() as Certificate;
+	const hasCertificate = certificate?.pubkey != null;
+	const cipher: CipherNameAndProtocol & { standardName?: string } =
+		sock.getCipher();
+
+	return {
+		protocol: sock.getProtocol(),
+		cipher: cipher.standardName ?? cipher.name,
+		certificate: hasCertificate
+			? {
+					subject: formatName(certificate.subject),
+					issuer: formatName(certificate.issuer),
+					validFrom: certificate.valid_from,
+					validTo: certificate.valid_to,
+					fingerprint256: certificate.fingerprint256,
+					spki: spkiFingerprint(certificate),
+			  }
+			: null,
+	};
+}
@@ -0,0 +1,149 @@
+export interface SMTPTranscriptEntry {
+	/**
+	 * who sent the line
+	 */
+	direction: 'client' | 'server';
+	/**
+	 * when the line was sent or received
+	 */
+	timestamp: Date;
+	/**
+	 * the line, without its line ending
+	 */
+	line: string;
+}
+
+export interface SMTPTranscriptOptions {
+	/**
+	 * how many bytes of each message body to record, the rest is summarized
+	 */
+	bodyLimit: number;
+}
+
+const DEFAULT_BODY_LIMIT = 1024 as const;
+
+/**
+ * @param {string} line a line the client sent while authenticating
+ * @returns {string} the line, keeping only the verb and mechanism of an `AUTH` command
+ */
+export function redactCommand(line: string) {
+	const [, auth] = line.match(/^(AUTH \S+)/i) ?? [];
+	return auth != null && auth !== line
+		? `${auth} [redacted]`
+		: auth ?? '[redacted]';
+}
+
+/**
+ * Records both sides of an smtp conversation, line by line.
+ */
+export class SMTPTranscript {
+	public readonly bodyLimit: number = DEFAULT_BODY_LIMIT;
+
+	private readonly entries: SMTPTranscriptEntry[] = [];
+	private redacting = false;
+	private bodyBytes = 0;
+	private pending = '';
+
+	/**
+	 * @param {Partial<SMTPTranscriptOptions>} [options] options
+	 */
+	constructor({ bodyLimit }: Partial<SMTPTranscriptOptions> = {}) {
+		if (typeof bodyLimit === 'number' && bodyLimit >= 0) {
+			this.bodyLimit = bodyLimit;
+		}
+	}
+
+	/**
+	 * @public
+	 * @returns {SMTPTranscriptEntry[]} the recorded lines, oldest first
+	 */
+	public lines() {
+		return this.entries.slice();
+	}
+
+	/**
+	 * @public
+	 * @description while redacting, the lines the client sends are replaced, keeping only the verb of an `AUTH` command.
+	 * @param {boolean} redacting whether the client is sending credentials
+	 * @returns {void}
+	 */
+	public redact(redacting: boolean) {
+		this.redacting = redacting;
+	}
+
+	/**
+	 * @public
+	 * @param {string} data a command sent by the client
+	 * @returns {void}
+	 */
+	public client(data: string) {
+		this.endBody();
+		this.split(data).forEach((line) =>
+			this.push('client', this.redacting ? redactCommand(line) : line)
+		);
+	}
+
+	/**
+	 * @public
+	 * @param {string} data a reply sent by the server
+	 * @returns {void}
+	 */
+	public server(data: string) {
+		this.split(data).forEach((line) => this.push('server', line));
+	}
+
+	/**
+	 * @public
+	 * @description records a part of a message body, up to the body limit.
+	 * @param {string | Buffer} data the part of the message body
+	 * @returns {void}
+	 */
+	public body(data: string | Buffer) {
+		const buffer = typeof data === 'string' ? Buffer.from(data) : data;
+		const remaining = Math.max(this.bodyLimit - this.bodyBytes, 0);
+		this.bodyBytes += buffer.length;
+
+		if (remaining > 0) {
+			const text = buffer.subarray(0, remaining).toString('utf8');
+			const lines = (this.pending + text).split(/\r?\n/);
+			this.pending = lines.pop() ?? '';
+			lines.forEach((line) => this.push('client', line));
+		}
+	}
+
+	/**
+	 * @returns {void}
+	 */
+	private endBody() {
+		if (this.pending.length > 0) {
+			this.push('client', this.pending);
+			this.pending = '';
+		}
+
+		if (this.bodyBytes > this.bodyLimit) {
+			this.push(
+				'client',
+				`[${this.bodyBytes - this.bodyLimit} more bytes of the message]`
+			);
+		}
+
+		this.bodyBytes = 0;
+	}
+
+	/**
+	 * @param {string} data data
+	 * @returns {string[]} the lines of the data
+	 */
+	private split(data: string) {
+		return data.replace(/\r?\n$/, '').split(/\r?\n/);
+	}
+
+	/**
+	 * @param {'client' | 'server'} direction who sent the line
+	 * @param {string} line the line
+	 * @returns {void}
+	 */
+	private push(direction: 'client' | 'server', line: string) {
+		this.entries.push({ direction, timestamp: new Date(), line });
+	}
+}
@@ -1,10 +1,21 @@
 import test from 'ava';
 import type { ExecutionContext } from 'ava';
+import { createHash, createHmac, pbkdf2Sync, randomBytes } from 'crypto';
 import { simpleParser } from 'mailparser';
 import type { AddressObject } from 'mailparser';
+import { createServer } from 'net';
 import { SMTPServer } from 'smtp-server';
 
-import { AUTH_METHODS, SMTPClient, Message } from '../email.js';
+import {
+	AUTH_METHODS,
+	SMTPClient,
+	SMTPConnection,
+	SMTPError,
+	SMTPErrorStates,
+	Message,
+	registerSASLMechanism,
+} from '../email.js';
+import type { SMTPCredentialsProvider } from '../email.js';
 
 let port = 2000;
 
@@ -15,11 +26,13 @@ function send(
 		authOptional = false,
 		secure = false,
 		password = 'honey',
+		credentials,
 	}: {
 		authMethods?: (keyof typeof AUTH_METHODS)[];
 		authOptional?: boolean;
 		secure?: boolean;
 		password?: string;
+		credentials?: SMTPCredentialsProvider;
 	} = {}
 ) {
 	return new Promise<void>((resolve, reject) => {
@@ -73,7 +86,11 @@ function send(
 		server.listen(p, () => {
 			const options = Object.assign(
 				{ port: p, ssl: secure, authentication: authMethods },
-				authOptional ? {} : { user: 'pooh', password }
+				authOptional
+					? {}
+					: credentials
+					? { credentials }
+					: { user: 'pooh', password }
 			);
 			new SMTPClient(options).send(new Message(msg), (err) => {
 				server.close(() => {
@@ -88,6 +105,122 @@ function send(
 	});
 }
 
+function createSaslServer(
+	mechanisms: string[],
+	exchange: (line: string) => string
+) {
+	return createServer((socket) => {
+		let buffer = '';
+		socket.write('220 localhost ESMTP\r\n');
+		socket.on('data', (received: Buffer) => {
+			buffer += received.toString();
+			let end = buffer.indexOf('\r\n');
+			while (end !== -1) {
+				const line = buffer.substring(0, end);
+				buffer = buffer.substring(end + 2);
+				if (line.toUpperCase().startsWith('EHLO')) {
+					socket.write(`250-localhost\r\n250 AUTH ${mechanisms.join(' ')}\r\n`);
+				} else if (line.toUpperCase() === 'QUIT') {
+					socket.end('221 bye\r\n');
+				} else {
+					socket.write(`${exchange(line)}\r\n`);
+				}
+				end = buffer.indexOf('\r\n');
+			}
+		});
+	});
+}
+
+function scramExchange(
+	hash: 'sha1' | 'sha256',
+	password: string,
+	{ forgeSignature = false } = {}
+) {
+	const salt = randomBytes(16);
+	const serverNonce = randomBytes(18).toString('base64');
+	const iterations = 4096;
+	const encode = (text: string) => Buffer.from(text).toString('base64');
+	const decode = (text: string) => Buffer.from(text, 'base64').toString();
+
+	let clientFirstBare = '';
+	let serverFirst = '';
+
+	return (line: string) => {
+		if (line.startsWith('AUTH ')) {
+			clientFirstBare = decode(line.split(' ')[2]).replace(/^n,,/, '');
+			const clientNonce = clientFirstBare.split(',r=')[1];
+			serverFirst = `r=${clientNonce}${serverNonce},s=${salt.toString(
+				'base64'
+			)},i=${iterations}`;
+			return `334 ${encode(serverFirst)}`;
+		} else if (line === '') {
+			return '235 2.7.0 authenticated';
+		}
+
+		const clientFinal = decode(line);
+		const [withoutProof, proof] = clientFinal.split(',p=');
+		const key = pbkdf2Sync(
+			password,
+			salt,
+			iterations,
+			createHash(hash).digest().length,
+			hash
+		);
+		const authMessage = `${clientFirstBare},${serverFirst},${withoutProof}`;
+		const storedKey = createHash(hash)
+			.update(createHmac(hash, key).update('Client Key').digest())
+			.digest();
+		const signature = createHmac(hash, storedKey).update(authMessage).digest();
+		const clientKey = Buffer.from(
+			Buffer.from(proof, 'base64').map((byte, i) => byte ^ signature[i])
+		);
+
+		if (
+			createHash(hash).update(clientKey).digest().equals(storedKey) === false
+		) {
+			return '535 5.7.8 authentication failed';
+		}
+
+		const serverSignature = forgeSignature
+			? randomBytes(signature.length)
+			: createHmac(hash, createHmac(hash, key).update('Server Key').digest())
+					.update(authMessage)
+					.digest();
+
+		return `334 ${encode(`v=${serverSignature.toString('base64')}`)}`;
+	};
+}
+
+function login(
+	exchange: (line: string) => string,
+	authentication: string[],
+	password = 'honey'
+) {
+	return new Promise<void>((resolve, reject) => {
+		const server = createSaslServer(authentication, exchange);
+		const p = port++;
+		server.listen(p, () => {
+			const connection = new SMTPConnection({
+				port: p,
+				user: 'pooh',
+				password,
+				authentication,
+			});
+			const done = (err: Error | null) => {
+				connection.close(true);
+				server.close(() => (err ? reject(err) : resolve()));
+			};
+			connection.connect((err) => {
+				if (err) {
+					done(err);
+				} else {
+					connection.login((err: Error | null) => done(err));
+				}
+			});
+		});
+	});
+}
+
 test('no authentication (unencrypted) should succeed', async (t) => {
 	await t.notThrowsAsync(send(t, { authOptional: true }));
 });
@@ -138,3 +271,193 @@ test('on authentication.failed error message should not contain password', async
 		t.false(err.message.includes(password));
 	});
 });
+
+test('on authentication.failed error should expose the reply but not the credentials', async (t) => {
+	t.plan(3);
+
+	await send(t, {
+		authMethods: [AUTH_METHODS.LOGIN],
+		password: 'passpot',
+	}).catch((err) => {
+		t.is(err.responseCode, 535);
+		t.is(err.statusClass, 'permanent');
+		t.is(err.command, 'AUTH');
+	});
+});
+
+test('SCRAM-SHA-256 authentication should succeed', async (t) => {
+	await t.notThrowsAsync(
+		login(scramExchange('sha256', 'honey'), [AUTH_METHODS['SCRAM-SHA-256']])
+	);
+});
+
+test('SCRAM-SHA-1 authentication should succeed', async (t) => {
+	await t.notThrowsAsync(
+		login(scramExchange('sha1', 'honey'), [AUTH_METHODS['SCRAM-SHA-1']])
+	);
+});
+
+test('SCRAM authentication should fail with the wrong password', async (t) => {
+	const err = await t.throwsAsync<SMTPError>(
+		login(
+			scramExchange('sha256', 'honey'),
+			[AUTH_METHODS['SCRAM-SHA-256']],
+			'passpot'
+		)
+	);
+	t.is(
+		err?.message,
+		"authorization.failed (bad response on command 'AUTH': 5.7.8 authentication failed)"
+	);
+	t.is(err?.responseCode, 535);
+});
+
+test('SCRAM authentication should fail if the server signature does not match', async (t) => {
+	const err = await t.throwsAsync<SMTPError>(
+		login(scramExchange('sha256', 'honey', { forgeSignature: true }), [
+			AUTH_METHODS['SCRAM-SHA-256'],
+		])
+	);
+	t.is(err?.code, SMTPErrorStates.AUTHFAILED);
+	t.is(err?.previous?.message, 'server signature mismatch');
+});
+
+function bearerExchange(token: string, lines: string[]) {
+	return (line: string) => {
+		lines.push(line);
+		if (line.startsWith('AUTH ') === false) {
+			return '535 5.7.8 authentication failed';
+		}
+
+		const [, mechanism, response] = line.split(' ');
+		const expected =
+			mechanism === AUTH_METHODS.OAUTHBEARER
+				? `^n,a=pooh,\u0001host=localhost\u0001port=\\d+\u0001auth=Bearer ${token}\u0001\u0001$`
+				: `^user=pooh\u0001auth=Bearer ${token}\u0001\u0001$`;
+
+		return new RegExp(expected).test(Buffer.from(response, 'base64').toString())
+			? '235 2.7.0 authenticated'
+			: `334 ${Buffer.from(
+					JSON.stringify({
+						status: 'invalid_token',
+						scope: 'https://mail.google.com/',
+					})
+			  ).toString('base64')}`;
+	};
+}
+
+test('OAUTHBEARER authentication should succeed', async (t) => {
+	const lines: string[] = [];
+	await t.notThrowsAsync(
+		login(bearerExchange('honey', lines), [AUTH_METHODS.OAUTHBEARER])
+	);
+	t.is(lines.length, 1);
+});
+
+test('OAUTHBEARER authentication should report the status and scope of a rejected token', async (t) => {
+	const lines: string[] = [];
+	const err = await t.throwsAsync<SMTPError>(
+		login(bearerExchange('honey', lines), [AUTH_METHODS.OAUTHBEARER], 'expired')
+	);
+	t.is(err?.code, SMTPErrorStates.AUTHFAILED);
+	t.is(
+		err?.previous?.message,
+		'oauth token rejected: status invalid_token, scope https://mail.google.com/'
+	);
+	t.is(lines[1], 'AQ==');
+});
+
+test('XOAUTH2 authentication should report the status of a rejected token', async (t) => {
+	const lines: string[] = [];
+	const err = await t.throwsAsync<SMTPError>(
+		login(bearerExchange('honey', lines), [AUTH_METHODS.XOAUTH2], 'expired')
+	);
+	t.is(
+		err?.previous?.message,
+		'oauth token rejected: status invalid_token, scope https://mail.google.com/'
+	);
+	t.is(lines[1], '');
+});
+
+test('registered SASL mechanisms can be used for authentication', async (t) => {
+	registerSASLMechanism({
+		name: 'X-HONEYPOT',
+		initialResponse: ({ user }) => user,
+		challenge: ({ password }, challenge, callback) =>
+			callback(null, `${challenge} ${password}`),
+		complete: () => null,
+	});
+
+	const lines: string[] = [];
+	await t.notThrowsAsync(
+		login(
+			(line) => {
+				lines.push(line);
+				return line.startsWith('AUTH ')
+					? `334 ${Buffer.from('jar').toString('base64')}`
+					: '235 2.7.0 authenticated';
+			},
+			['X-HONEYPOT']
+		)
+	);
+	t.deepEqual(lines, [
+		`AUTH X-HONEYPOT ${Buffer.from('pooh').toString('base64')}`,
+		Buffer.from('jar honey').toString('base64'),
+	]);
+});
+
+test('registered SASL mechanisms can reject a completed exchange', async (t) => {
+	registerSASLMechanism({
+		name: 'X-SKEPTIC',
+		initialResponse: () => '',
+		challenge: (_session, _challenge, callback) => callback(null, ''),
+		complete: () => new Error('server not trusted'),
+	});
+
+	const lines: string[] = [];
+	const err = await t.throwsAsync<SMTPError>(
+		login(
+			(line) => {
+				lines.push(line);
+				return '235 2.7.0 authenticated';
+			},
+			['X-SKEPTIC']
+		)
+	);
+	t.is(err?.previous?.message, 'server not trusted');
+	t.deepEqual(lines, ['AUTH X-SKEPTIC =']);
+});
+
+test('unregistered SASL mechanisms are not used for authentication', async (t) => {
+	const err = await t.throwsAsync<SMTPError>(
+		login(() => '235 2.7.0 authenticated', ['X-UNKNOWN'])
+	);
+	t.is(err?.code, SMTPErrorStates.AUTHNOTSUPPORTED);
+});
+
+test('credentials provider is asked to refresh rejected credentials', async (t) => {
+	const refreshes: boolean[] = [];
+	await send(t, {
+		authMethods: [AUTH_METHODS.XOAUTH2],
+		credentials: async ({ refresh }) => {
+			refreshes.push(refresh);
+			return { user: 'pooh', password: refresh ? 'honey' : 'expired' };
+		},
+	});
+	t.deepEqual(refreshes, [false, true]);
+});
+
+test('credentials provider is only asked to refresh once', async (t) => {
+	const refreshes: boolean[] = [];
+	const err = await t.throwsAsync<SMTPError>(
+		send(t, {
+			authMethods: [AUTH_METHODS.PLAIN],
+			credentials: async ({ refresh }) => {
+				refreshes.push(refresh);
+				return { user: 'pooh', password: 'expired' };
+			},
+		})
+	);
+	t.is(err?.code, SMTPErrorStates.AUTHFAILED);
+	t.deepEqual(refreshes, [false, true]);
+});
@@ -0,0 +1,30 @@
+import test from 'ava';
+
+import { parseCapabilities } from '../email.js';
+
+test('parses the extensions listed by the server', async (t) => {
+	const capabilities = parseCapabilities({
+		'auth=login': 'PLAIN',
+		auth: 'login xoauth2',
+		size: true,
+		chunking: true,
+		binarymime: true,
+		dsn: true,
+		enhancedstatuscodes: true,
+		requiretls: true,
+	});
+
+	t.deepEqual(capabilities.auth, ['LOGIN', 'PLAIN', 'XOAUTH2']);
+	t.like(capabilities, {
+		size: 0,
+		pipelining: false,
+		starttls: false,
+		chunking: true,
+		binaryMime: true,
+		dsn: true,
+		enhancedStatusCodes: true,
+		requireTls: true,
+	});
+	t.is(parseCapabilities({}).size, null);
+	t.is(parseCapabilities({ size: '35882577' }).size, 35882577);
+});
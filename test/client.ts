@@ -1,3 +1,9 @@
+import { createReadStream, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { createConnection, createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Duplex } from 'stream';
+import { URL } from 'url';
 import { promisify } from 'util';
 
 import test from 'ava';
@@ -5,10 +11,16 @@ import { simpleParser } from 'mailparser';
 import type { ParsedMail, AddressObject } from 'mailparser';
 import { SMTPServer } from 'smtp-server';
 
-import type { MessageHeaders } from '../email.js';
+import type {
+	MessageHeaders,
+	SMTPRecipientStatus,
+	SMTPSocketFactoryOptions,
+} from '../email.js';
 import {
 	DEFAULT_TIMEOUT,
 	SMTPClient,
+	SMTPError,
+	SMTPErrorStates,
 	Message,
 	isRFC2822Date,
 } from '../email.js';
@@ -16,6 +28,16 @@ import {
 const parseMap = new Map<string, ParsedMail>();
 const port = 3333;
 let greylistPort = 4444;
+let sizePort = 4544;
+let utf8Port = 4644;
+let pipelinePort = 4744;
+let chunkingPort = 4844;
+let dsnPort = 4944;
+let rejectPort = 5044;
+let socketPort = 5144;
+let eventPort = 5644;
+let verifyPort = 5744;
+let dataPort = 5844;
 
 const client = new SMTPClient({
 	port,
@@ -56,6 +78,96 @@ async function send(headers: Partial<MessageHeaders>) {
 	});
 }
 
+/**
+ * a bare-bones smtp server for extensions that smtp-server doesn't implement
+ *
+ * @param {string[]} extensions the extensions to advertise in the EHLO reply
+ * @param {string[]} [replies=[]] the replies to the end of the first messages, before the rest are accepted
+ * @returns {{ server: Server, batches: string[], commands: string[], messages: Buffer[] }} the server and everything it received
+ */
+function createExtensionServer(extensions: string[], replies: string[] = []) {
+	const batches: string[] = [];
+	const commands: string[] = [];
+	const messages: Buffer[] = [];
+
+	const server = createServer((socket) => {
+		let buffer = Buffer.alloc(0);
+		let chunks: Buffer[] = [];
+		let chunk: number | null = null;
+		let last = false;
+		let data = false;
+
+		socket.write('220 localhost ESMTP\r\n');
+		socket.on('data', (received: Buffer) => {
+			batches.push(received.toString());
+			buffer = Buffer.concat([buffer, received]);
+
+			for (;;) {
+				if (chunk != null) {
+					if (buffer.length < chunk) {
+						return;
+					}
+					chunks.push(buffer.subarray(0, chunk));
+					buffer = buffer.subarray(chunk);
+					chunk = null;
+					if (last) {
+						messages.push(Buffer.concat(chunks));
+						chunks = [];
+						socket.write(`${replies.shift() ?? '250 OK'}\r\n`);
+					} else {
+						socket.write('250 OK\r\n');
+					}
+				} else if (data) {
+					const end = buffer.indexOf('\r\n.\r\n');
+					if (end === -1) {
+						return;
+					}
+					messages.push(buffer.subarray(0, end));
+					buffer = buffer.subarray(end + 5);
+					data = false;
+					socket.write(`${replies.shift() ?? '250 queued'}\r\n`);
+				} else {
+					const end = buffer.indexOf('\r\n');
+					if (end === -1) {
+						return;
+					}
+					const line = buffer.subarray(0, end).toString();
+					const [command, size, lastChunk] = line.split(/[ :]/);
+					buffer = buffer.subarray(end + 2);
+					commands.push(line);
+
+					switch (command.toUpperCase()) {
+						case 'EHLO':
+						case 'LHLO':
+							socket.write(
+								['localhost', ...extensions]
+									.map((x, i, a) => `250${i === a.length - 1 ? ' ' : '-'}${x}`)
+									.join('\r\n') + '\r\n'
+							);
+							break;
+						case 'DATA':
+							data = true;
+							socket.write('354 go ahead\r\n');
+							break;
+						case 'BDAT':
+							chunk = Number(size);
+							last = lastChunk === 'LAST';
+							break;
+						case 'QUIT':
+							socket.end('221 bye\r\n');
+							break;
+						default:
+							socket.write('250 OK\r\n');
+							break;
+					}
+				}
+			}
+		});
+	});
+
+	return { server, batches, commands, messages };
+}
+
 test.before(async (t) => {
 	server.listen(port, t.pass);
 });
@@ -341,88 +453,1316 @@ test('client only responds once to greylisting', async (t) => {
 	t.is(error?.message, "bad response on command 'RCPT': greylist");
 });
 
-test('client send can have result awaited when promisified', async (t) => {
-	// bind necessary to retain internal access to client prototype
-	const sendAsync = promisify(client.send.bind(client));
+test('client retries the replies matched by its retry policy', async (t) => {
+	let attempts = 0;
+	const server = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, _session, callback) {
+			attempts++;
+			if (attempts < 3) {
+				const err = new Error('mailbox busy, try again later');
+				(err as never as { responseCode: number }).responseCode = 451;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+	});
+
+	const p = greylistPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					retry: {
+						match: [{ code: 451, text: /try again/ }],
+						maxAttempts: 3,
+						delay: 10,
+					},
+				}).send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.is(attempts, 3);
+});
+
+test('client holds the connection for a retry that is longer than its timeout', async (t) => {
+	let attempts = 0;
+	const server = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, _session, callback) {
+			attempts++;
+			if (attempts === 1) {
+				const err = new Error('greylisted, please retry');
+				(err as never as { responseCode: number }).responseCode = 450;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+	});
+
+	const p = greylistPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					timeout: 200,
+					retry: { delay: 500 },
+				}).send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.is(attempts, 2);
+});
+
+test('client holds the connection for a retry that is longer than its timeout after STARTTLS', async (t) => {
+	let attempts = 0;
+	let secure = false;
+	const server = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, session, callback) {
+			attempts++;
+			secure = session.secure;
+			if (attempts === 1) {
+				const err = new Error('greylisted, please retry');
+				(err as never as { responseCode: number }).responseCode = 450;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+	});
+
+	const p = greylistPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					tls: { rejectUnauthorized: false },
+					timeout: 200,
+					retry: { delay: 500 },
+				}).send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.is(attempts, 2);
+	t.true(secure);
+});
+
+test('client defers a message instead of holding the connection for a long retry', async (t) => {
+	const sessions = new Set<string>();
+	const server = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, session, callback) {
+			sessions.add(session.id);
+			if (sessions.size === 1) {
+				const err = new Error('greylisted, please retry');
+				(err as never as { responseCode: number }).responseCode = 450;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+	});
+
+	const p = greylistPort++;
+	const client = new SMTPClient({
+		port: p,
+		retry: { delay: 50, holdLimit: 0 },
+	});
+	const deferrals: number[] = [];
+	client.on('deferred', (_message, delay) => deferrals.push(delay));
+
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				client.send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.deepEqual(deferrals, [50]);
+	t.is(sessions.size, 2);
+});
+
+test('client sends a deferred message to every recipient again', async (t) => {
+	const sessions = new Map<string, string[]>();
+	const delivered: string[][] = [];
+	const server = new SMTPServer({
+		authOptional: true,
+		hidePIPELINING: true,
+		onRcptTo({ address }, session, callback) {
+			const recipients = sessions.get(session.id) ?? [];
+			sessions.set(session.id, [...recipients, address]);
+			if (sessions.size === 1 && address === 'tigger@gmail.com') {
+				const err = new Error('greylisted, please retry');
+				(err as never as { responseCode: number }).responseCode = 450;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+		onData(stream, session, callback: () => void) {
+			delivered.push(session.envelope.rcptTo.map(({ address }) => address));
+			stream.on('end', callback);
+			stream.resume();
+		},
+	});
+
+	const p = greylistPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					retry: { delay: 10, holdLimit: 0 },
+				}).send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com, tigger@gmail.com, eeyore@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.deepEqual(Array.from(sessions.values()), [
+		['pooh@gmail.com', 'tigger@gmail.com'],
+		['pooh@gmail.com', 'tigger@gmail.com', 'eeyore@gmail.com'],
+	]);
+	t.deepEqual(delivered, [
+		['pooh@gmail.com', 'tigger@gmail.com', 'eeyore@gmail.com'],
+	]);
+});
+
+test('client sends the whole message again when the server asks to retry the end of DATA', async (t) => {
+	const { server, commands, messages } = createExtensionServer(
+		[],
+		['451 4.7.1 try again later']
+	);
+
+	const p = greylistPort++;
+	const client = new SMTPClient({
+		port: p,
+		retry: { match: [{ enhancedCode: /^4\.7\./ }], delay: 10 },
+	});
+	const deferrals: number[] = [];
+	client.on('deferred', (_message, delay) => deferrals.push(delay));
+
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				client.send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.deepEqual(deferrals, [10]);
+	t.is(commands.filter((x) => x.toUpperCase() === 'DATA').length, 2);
+	t.false(commands.some((x) => x === '' || x === '.'));
+	t.is(messages.length, 2);
+	t.deepEqual(messages[0], messages[1]);
+});
+
+test('client sends the whole message again when the server asks to retry the last BDAT', async (t) => {
+	const { server, commands, messages } = createExtensionServer(
+		['CHUNKING'],
+		['451 4.7.1 try again later']
+	);
+
+	const p = greylistPort++;
+	const client = new SMTPClient({
+		port: p,
+		retry: { match: [{ enhancedCode: /^4\.7\./ }], delay: 10 },
+	});
+	const deferrals: number[] = [];
+	client.on('deferred', (_message, delay) => deferrals.push(delay));
+
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				client.send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.deepEqual(deferrals, [10]);
+	t.is(commands.filter((x) => /^BDAT \d+ LAST$/.test(x)).length, 2);
+	t.is(messages.length, 2);
+	t.deepEqual(messages[0], messages[1]);
+});
+
+test('client fails a deferred message once its retry policy runs out of attempts', async (t) => {
+	const server = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, _session, callback) {
+			const err = new Error('greylisted, please retry');
+			(err as never as { responseCode: number }).responseCode = 450;
+			callback(err);
+		},
+	});
+
+	const p = greylistPort++;
+	const error = await t.throwsAsync<SMTPError>(
+		new Promise<void>((resolve, reject) => {
+			server.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					retry: { delay: 10, holdLimit: 0, maxAttempts: 3 },
+				}).send(
+					new Message({
+						subject: 'this is a test TEXT message from emailjs',
+						from: 'piglet@gmail.com',
+						to: 'pooh@gmail.com',
+						text: "It is hard to be brave when you're only a Very Small Animal.",
+					}),
+					(err) => {
+						server.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+	t.is(error?.code, SMTPErrorStates.RETRYLATER);
+	t.is(error?.command, 'RCPT');
+	t.is(error?.responseCode, 450);
+	t.is(typeof error?.retryAfter, 'number');
+});
+
+test('client declares the message size when the server supports SIZE', async (t) => {
+	t.plan(2);
 
 	const msg = {
 		subject: 'this is a test TEXT message from emailjs',
 		from: 'piglet@gmail.com',
-		bcc: 'pooh@gmail.com',
+		to: 'pooh@gmail.com',
 		text: "It is hard to be brave when you're only a Very Small Animal.",
 	};
 
-	try {
-		const message = (await sendAsync(new Message(msg))) as Message;
-		t.true(message instanceof Message);
-		t.like(message, {
-			alternative: null,
-			content: 'text/plain; charset=utf-8',
-			text: "It is hard to be brave when you're only a Very Small Animal.",
-			header: {
-				bcc: 'pooh@gmail.com',
-				from: 'piglet@gmail.com',
-				subject: '=?UTF-8?Q?this_is_a_test_TEXT_message_from_emailjs?=',
-			},
-		});
-		t.deepEqual(message.attachments, []);
-		t.true(isRFC2822Date(message.header.date as string));
-		t.regex(message.header['message-id'] as string, /^<.*[@]{1}.*>$/);
-	} catch (err) {
-		if (err instanceof Error) {
-			t.fail(err.message);
-		} else if (typeof err === 'string') {
-			t.fail(err);
-		} else {
-			t.fail();
-		}
-	}
+	const sizeServer = new SMTPServer({
+		authOptional: true,
+		size: 1024,
+		onMailFrom(address, _session, callback) {
+			t.true(Number((address.args as { SIZE?: string }).SIZE) > 0);
+			callback();
+		},
+		onData(stream, _session, callback: () => void) {
+			stream.resume();
+			stream.on('end', callback);
+		},
+	});
+
+	const p = sizePort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			sizeServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					sizeServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
 });
 
-test('client sendAsync can have result awaited', async (t) => {
+test('client rejects a message larger than the server SIZE limit before sending it', async (t) => {
 	const msg = {
 		subject: 'this is a test TEXT message from emailjs',
 		from: 'piglet@gmail.com',
-		bcc: 'pooh@gmail.com',
-		text: "It is hard to be brave when you're only a Very Small Animal.",
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.".repeat(
+			100
+		),
 	};
 
-	try {
-		const message = await client.sendAsync(new Message(msg));
-		t.true(message instanceof Message);
-		t.like(message, {
-			alternative: null,
-			content: 'text/plain; charset=utf-8',
-			text: "It is hard to be brave when you're only a Very Small Animal.",
-			header: {
-				bcc: 'pooh@gmail.com',
-				from: 'piglet@gmail.com',
-				subject: '=?UTF-8?Q?this_is_a_test_TEXT_message_from_emailjs?=',
-			},
-		});
-		t.deepEqual(message.attachments, []);
-		t.true(isRFC2822Date(message.header.date as string));
-		t.regex(message.header['message-id'] as string, /^<.*[@]{1}.*>$/);
-	} catch (err) {
-		if (err instanceof Error) {
-			t.fail(err.message);
-		} else if (typeof err === 'string') {
-			t.fail(err);
-		} else {
+	const sizeServer = new SMTPServer({
+		authOptional: true,
+		size: 1024,
+		onMailFrom(_address, _session, callback) {
 			t.fail();
-		}
-	}
+			callback();
+		},
+	});
+
+	const p = sizePort++;
+	const error = await t.throwsAsync(
+		new Promise<void>((resolve, reject) => {
+			sizeServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					sizeServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+	t.true(error instanceof SMTPError);
+	t.is((error as SMTPError).code, SMTPErrorStates.MESSAGETOOLARGE);
 });
 
-test('client sendAsync can have error caught when awaited', async (t) => {
+test('client declares the size of the message as it is sent, with its line endings normalized and dots stuffed', async (t) => {
 	const msg = {
 		subject: 'this is a test TEXT message from emailjs',
 		from: 'piglet@gmail.com',
-		bcc: 'pooh@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave\n.when you're only\n.\na Very Small Animal.\n".repeat(
+			50
+		),
+	};
+
+	const {
+		server: sizeServer,
+		commands,
+		messages,
+	} = createExtensionServer(['SIZE 100000']);
+
+	const p = sizePort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			sizeServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					sizeServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	const [, size] =
+		commands.map((x) => x.match(/^mail FROM:.* SIZE=(\d+)/)).find(Boolean) ??
+		[];
+	t.is(messages.length, 1);
+	t.is(Number(size), messages[0].length);
+});
+
+test('client declares SMTPUTF8 for internationalized addresses when the server supports it', async (t) => {
+	t.plan(3);
+
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pöoh@bücher.example',
 		text: "It is hard to be brave when you're only a Very Small Animal.",
 	};
 
-	try {
+	const utf8Server = new SMTPServer({
+		authOptional: true,
+		onMailFrom(address, _session, callback) {
+			t.true((address.args as { SMTPUTF8?: boolean }).SMTPUTF8);
+			callback();
+		},
+		onRcptTo(address, _session, callback) {
+			t.is(address.address, msg.to);
+			callback();
+		},
+		onData(stream, _session, callback: () => void) {
+			stream.resume();
+			stream.on('end', callback);
+		},
+	});
+
+	const p = utf8Port++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			utf8Server.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					utf8Server.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+});
+
+test('client converts internationalized domains to punycode when the server lacks SMTPUTF8', async (t) => {
+	t.plan(3);
+
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@bücher.example',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const asciiServer = new SMTPServer({
+		authOptional: true,
+		hideSMTPUTF8: true,
+		onMailFrom(address, _session, callback) {
+			t.falsy(address.args);
+			callback();
+		},
+		onData(stream, _session, callback: () => void) {
+			let data = '';
+			stream.on('data', (chunk) => (data += chunk));
+			stream.on('end', () => {
+				t.regex(data, /^To: pooh@xn--bcher-kva\.example\r$/m);
+				callback();
+			});
+		},
+	});
+
+	const p = utf8Port++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			asciiServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					asciiServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+});
+
+test('client rejects internationalized local parts when the server lacks SMTPUTF8', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pöoh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const asciiServer = new SMTPServer({
+		authOptional: true,
+		hideSMTPUTF8: true,
+		onMailFrom(_address, _session, callback) {
+			t.fail();
+			callback();
+		},
+	});
+
+	const p = utf8Port++;
+	const error = await t.throwsAsync(
+		new Promise<void>((resolve, reject) => {
+			asciiServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					asciiServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+	t.is((error as SMTPError).code, SMTPErrorStates.UTF8NOTSUPPORTED);
+});
+
+test('client writes the envelope in a single batch when the server supports PIPELINING', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com, owl@gmail.com, rabbit@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const { server: pipelineServer, batches } = createExtensionServer([
+		'PIPELINING',
+	]);
+
+	const p = pipelinePort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			pipelineServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					pipelineServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+	t.true(
+		batches.some(
+			(batch) =>
+				batch.includes('mail FROM:<piglet@gmail.com>') &&
+				batch.includes('RCPT TO:<pooh@gmail.com>') &&
+				batch.includes('RCPT TO:<owl@gmail.com>') &&
+				batch.includes('RCPT TO:<rabbit@gmail.com>')
+		)
+	);
+});
+
+test('client reports the rejected recipient when pipelining', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com, heffalump@gmail.com, owl@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const pipelineServer = new SMTPServer({
+		authOptional: true,
+		onRcptTo(address, _session, callback) {
+			if (address.address === 'heffalump@gmail.com') {
+				callback(new Error('no such heffalump'));
+			} else {
+				callback();
+			}
+		},
+		onData(stream, _session, callback: () => void) {
+			t.fail();
+			stream.resume();
+			stream.on('end', callback);
+		},
+	});
+
+	const p = pipelinePort++;
+	const error = await t.throwsAsync(
+		new Promise<void>((resolve, reject) => {
+			pipelineServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					pipelineServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+	t.is(error?.message, "bad response on command 'RCPT': no such heffalump");
+});
+
+test('client sends the message with BDAT when the server supports CHUNKING', async (t) => {
+	const gifFixtureUrl = new URL('attachments/smtp.gif', import.meta.url);
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+		attachment: {
+			path: gifFixtureUrl.pathname,
+			type: 'image/gif',
+			name: 'smtp-diagram.gif',
+		},
+	};
+
+	const {
+		server: chunkingServer,
+		commands,
+		messages,
+	} = createExtensionServer(['CHUNKING', 'BINARYMIME']);
+
+	const p = chunkingPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			chunkingServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					chunkingServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.true(commands.some((x) => /^mail FROM:.* BODY=BINARYMIME/.test(x)));
+	t.true(commands.some((x) => /^BDAT \d+ LAST$/.test(x)));
+	t.false(commands.some((x) => x.toUpperCase() === 'DATA'));
+	t.is(messages.length, 1);
+	t.regex(messages[0].toString(), /Content-Transfer-Encoding: binary/);
+	t.true(messages[0].includes(readFileSync(gifFixtureUrl)));
+});
+
+test('client does not declare BINARYMIME to an LMTP server, which is sent the message with DATA', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const {
+		server: chunkingServer,
+		commands,
+		messages,
+	} = createExtensionServer(['CHUNKING', 'BINARYMIME']);
+
+	const p = chunkingPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			chunkingServer.listen(p, () => {
+				new SMTPClient({ port: p, lmtp: true }).send(
+					new Message(msg),
+					(err) => {
+						chunkingServer.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+
+	t.false(commands.some((x) => /BODY=BINARYMIME/.test(x)));
+	t.false(commands.some((x) => /^BDAT/.test(x)));
+	t.true(commands.some((x) => x.toUpperCase() === 'DATA'));
+	t.is(messages.length, 1);
+	t.notRegex(messages[0].toString(), /Content-Transfer-Encoding: binary/);
+});
+
+test('client requests delivery status notifications when the server supports DSN', async (t) => {
+	const msg: Partial<MessageHeaders> = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+		dsn: {
+			ret: 'HDRS',
+			envid: 'honey pot+1',
+			notify: ['SUCCESS', 'FAILURE'],
+			orcpt: true,
+		},
+	};
+
+	const { server: dsnServer, commands } = createExtensionServer(['DSN']);
+
+	const p = dsnPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			dsnServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					dsnServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.true(
+		commands.includes(
+			'mail FROM:<piglet@gmail.com> RET=HDRS ENVID=honey+20pot+2B1'
+		)
+	);
+	t.true(
+		commands.includes(
+			'RCPT TO:<pooh@gmail.com> NOTIFY=SUCCESS,FAILURE ORCPT=rfc822;pooh@gmail.com'
+		)
+	);
+});
+
+test('client omits delivery status notification parameters when the server lacks DSN', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+		dsn: { ret: 'FULL' as const, notify: 'NEVER' as const },
+	};
+
+	const { server: dsnServer, commands } = createExtensionServer([]);
+
+	const p = dsnPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			dsnServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					dsnServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.true(commands.includes('mail FROM:<piglet@gmail.com>'));
+	t.true(commands.includes('RCPT TO:<pooh@gmail.com>'));
+});
+
+test('client exposes the enhanced status code of a rejected command', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'heffalump@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const rejectServer = new SMTPServer({
+		authOptional: true,
+		onRcptTo(_address, _session, callback) {
+			const err = new Error('5.1.1 no such heffalump');
+			(err as never as { responseCode: number }).responseCode = 550;
+			callback(err);
+		},
+	});
+
+	const p = rejectPort++;
+	const error = await t.throwsAsync(
+		new Promise<void>((resolve, reject) => {
+			rejectServer.listen(p, () => {
+				new SMTPClient({ port: p }).send(new Message(msg), (err) => {
+					rejectServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.true(error instanceof SMTPError);
+	t.like(error, {
+		code: SMTPErrorStates.BADRESPONSE,
+		responseCode: 550,
+		enhancedCode: '5.1.1',
+		statusClass: 'permanent',
+		command: 'RCPT',
+		responseText: 'no such heffalump',
+	});
+});
+
+test('client delivers to each recipient over LMTP on a unix socket', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com, eeyore@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const path = join(tmpdir(), `emailjs-lmtp-${process.pid}-1.sock`);
+	const lmtpServer = new SMTPServer({
+		lmtp: true,
+		authOptional: true,
+		onData(stream, _session, callback: () => void) {
+			stream.on('end', callback);
+			stream.resume();
+		},
+	});
+
+	const recipients = await new Promise<SMTPRecipientStatus[] | undefined>(
+		(resolve, reject) => {
+			lmtpServer.listen(path, () => {
+				new SMTPClient({ path, lmtp: true }).send(
+					new Message(msg),
+					(err, _message, recipients) => {
+						lmtpServer.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve(recipients);
+						}
+					}
+				);
+			});
+		}
+	);
+	t.deepEqual(recipients, [
+		{ address: 'pooh@gmail.com', error: null },
+		{ address: 'eeyore@gmail.com', error: null },
+	]);
+});
+
+test('client reports the recipients an LMTP server did not deliver to', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com, heffalump@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const path = join(tmpdir(), `emailjs-lmtp-${process.pid}-2.sock`);
+	const lmtpServer = new SMTPServer({
+		lmtp: true,
+		authOptional: true,
+		onData(stream, _session, callback) {
+			const err = new Error('5.2.2 mailbox full');
+			(err as never as { responseCode: number }).responseCode = 552;
+			stream.on('end', () =>
+				(callback as (err: null, responses: unknown[]) => void)(null, [
+					'delivered',
+					err,
+				])
+			);
+			stream.resume();
+		},
+	});
+
+	const error = await t.throwsAsync<SMTPError>(
+		new Promise<void>((resolve, reject) => {
+			lmtpServer.listen(path, () => {
+				new SMTPClient({ path, lmtp: true }).send(new Message(msg), (err) => {
+					lmtpServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.is(error?.code, SMTPErrorStates.DELIVERYFAILED);
+	t.is(
+		error?.message.startsWith('message was not delivered to 1 of 2 recipients'),
+		true
+	);
+	t.deepEqual(
+		error?.recipients?.map(({ address, error }) => [
+			address,
+			(error as SMTPError | null)?.responseCode ?? null,
+		]),
+		[
+			['pooh@gmail.com', null],
+			['heffalump@gmail.com', 552],
+		]
+	);
+});
+
+test('client talks to the server over the stream from a socket factory', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const { server: socketServer, messages } = createExtensionServer([]);
+	const factoryOptions: SMTPSocketFactoryOptions[] = [];
+
+	const p = socketPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			socketServer.listen(p, () => {
+				const socketFactory = (options: SMTPSocketFactoryOptions) => {
+					factoryOptions.push(options);
+
+					// a plain duplex, so none of the socket api is available
+					const socket = createConnection(options.port, options.host);
+					const stream = new Duplex({
+						read() {
+							socket.resume();
+						},
+						write(chunk, encoding, callback) {
+							socket.write(chunk, encoding, callback);
+						},
+						final(callback) {
+							socket.end(callback);
+						},
+					});
+					socket.on('data', (data) => stream.push(data) || socket.pause());
+					socket.on('end', () => stream.push(null));
+					return stream;
+				};
+
+				new SMTPClient({ port: p, socketFactory }).send(
+					new Message(msg),
+					(err) => {
+						socketServer.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+
+	t.deepEqual(factoryOptions, [
+		{
+			host: 'localhost',
+			port: p,
+			path: null,
+			localAddress: null,
+			family: null,
+		},
+	]);
+	t.is(messages.length, 1);
+});
+
+test('client does not time out a stream from a socket factory while it is still sending the message', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.\n".repeat(
+			8192
+		),
+	};
+
+	const { server: socketServer, messages } = createExtensionServer([]);
+	let writing = 0;
+
+	const p = socketPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			socketServer.listen(p, () => {
+				const socketFactory = (options: SMTPSocketFactoryOptions) => {
+					const socket = createConnection(options.port, options.host);
+					// a slow link, on which the message takes longer than several timeouts to send
+					const stream = new Duplex({
+						highWaterMark: 1024,
+						read() {
+							socket.resume();
+						},
+						write(chunk, encoding, callback) {
+							const start = Date.now();
+							setTimeout(() => {
+								writing += Date.now() - start;
+								socket.write(chunk, encoding, callback);
+							}, 20);
+						},
+						final(callback) {
+							socket.end(callback);
+						},
+					});
+					socket.on('data', (data) => stream.push(data) || socket.pause());
+					socket.on('end', () => stream.push(null));
+					return stream;
+				};
+
+				new SMTPClient({ port: p, socketFactory, timeout: 200 }).send(
+					new Message(msg),
+					(err) => {
+						socketServer.close();
+						if (err) {
+							reject(err);
+						} else {
+							resolve();
+						}
+					}
+				);
+			});
+		})
+	);
+
+	t.true(writing > 600);
+	t.is(messages.length, 1);
+});
+
+test('client connects from the given local address', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	const addresses: string[] = [];
+	const localServer = new SMTPServer({
+		authOptional: true,
+		onConnect(session, callback) {
+			addresses.push(session.remoteAddress);
+			callback();
+		},
+	});
+
+	const p = socketPort++;
+	await t.notThrowsAsync(
+		new Promise<void>((resolve, reject) => {
+			localServer.listen(p, () => {
+				new SMTPClient({
+					port: p,
+					family: 4,
+					localAddress: '127.0.0.1',
+				}).send(new Message(msg), (err) => {
+					localServer.close();
+					if (err) {
+						reject(err);
+					} else {
+						resolve();
+					}
+				});
+			});
+		})
+	);
+
+	t.deepEqual(addresses, ['127.0.0.1']);
+});
+
+test('client emits the lifecycle events of its queue', async (t) => {
+	const events: string[] = [];
+	const eventServer = new SMTPServer({
+		authOptional: true,
+		onRcptTo(address, _session, callback) {
+			callback(
+				address.address === 'heffalump@gmail.com'
+					? new Error('no such heffalump')
+					: undefined
+			);
+		},
+	});
+	const p = eventPort++;
+	const eventClient = new SMTPClient({ port: p });
+	const messages = ['pooh@gmail.com', 'heffalump@gmail.com'].map(
+		(to) =>
+			new Message({
+				subject: 'this is a test TEXT message from emailjs',
+				from: 'piglet@gmail.com',
+				to,
+				text: "It is hard to be brave when you're only a Very Small Animal.",
+			})
+	);
+	const recipient = (message: Message) => message.header.to;
+
+	eventClient.on('queued', (message) =>
+		events.push(`queued ${recipient(message)}`)
+	);
+	eventClient.on('sending', (message) =>
+		events.push(`sending ${recipient(message)}`)
+	);
+	eventClient.on('sent', (message) =>
+		events.push(`sent ${recipient(message)}`)
+	);
+	eventClient.on('failed', (err, message) =>
+		events.push(
+			`failed ${recipient(message)} ${(err as SMTPError).responseCode}`
+		)
+	);
+	eventClient.on('drain', () => events.push('drain'));
+
+	await new Promise<void>((resolve) => {
+		eventClient.on('idle', () => {
+			events.push('idle');
+			resolve();
+		});
+		eventServer.listen(p, () =>
+			messages.forEach((message) => eventClient.send(message, () => undefined))
+		);
+	});
+	eventServer.close();
+
+	t.deepEqual(events, [
+		'queued pooh@gmail.com',
+		'queued heffalump@gmail.com',
+		'sending pooh@gmail.com',
+		'sent pooh@gmail.com',
+		'sending heffalump@gmail.com',
+		'failed heffalump@gmail.com 550',
+		'drain',
+		'idle',
+	]);
+});
+
+test('client send can have result awaited when promisified', async (t) => {
+	// bind necessary to retain internal access to client prototype
+	const sendAsync = promisify(client.send.bind(client));
+
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		bcc: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	try {
+		const message = (await sendAsync(new Message(msg))) as Message;
+		t.true(message instanceof Message);
+		t.like(message, {
+			alternative: null,
+			content: 'text/plain; charset=utf-8',
+			text: "It is hard to be brave when you're only a Very Small Animal.",
+			header: {
+				bcc: 'pooh@gmail.com',
+				from: 'piglet@gmail.com',
+				subject: '=?UTF-8?Q?this_is_a_test_TEXT_message_from_emailjs?=',
+			},
+		});
+		t.deepEqual(message.attachments, []);
+		t.true(isRFC2822Date(message.header.date as string));
+		t.regex(message.header['message-id'] as string, /^<.*[@]{1}.*>$/);
+	} catch (err) {
+		if (err instanceof Error) {
+			t.fail(err.message);
+		} else if (typeof err === 'string') {
+			t.fail(err);
+		} else {
+			t.fail();
+		}
+	}
+});
+
+test('client sendAsync can have result awaited', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		bcc: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	try {
+		const message = await client.sendAsync(new Message(msg));
+		t.true(message instanceof Message);
+		t.like(message, {
+			alternative: null,
+			content: 'text/plain; charset=utf-8',
+			text: "It is hard to be brave when you're only a Very Small Animal.",
+			header: {
+				bcc: 'pooh@gmail.com',
+				from: 'piglet@gmail.com',
+				subject: '=?UTF-8?Q?this_is_a_test_TEXT_message_from_emailjs?=',
+			},
+		});
+		t.deepEqual(message.attachments, []);
+		t.true(isRFC2822Date(message.header.date as string));
+		t.regex(message.header['message-id'] as string, /^<.*[@]{1}.*>$/);
+	} catch (err) {
+		if (err instanceof Error) {
+			t.fail(err.message);
+		} else if (typeof err === 'string') {
+			t.fail(err);
+		} else {
+			t.fail();
+		}
+	}
+});
+
+test('client sendAsync can have error caught when awaited', async (t) => {
+	const msg = {
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		bcc: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	};
+
+	try {
 		const invalidClient = new SMTPClient({ host: '127.0.0.1' });
 		const message = await invalidClient.sendAsync(new Message(msg));
 		t.true(message instanceof Message);
@@ -432,3 +1772,264 @@ test('client sendAsync can have error caught when awaited', async (t) => {
 		t.pass();
 	}
 });
+
+test('client verifies recipients without sending a message', async (t) => {
+	const senders: string[] = [];
+	const server = new SMTPServer({
+		authOptional: true,
+		hideSTARTTLS: true,
+		onMailFrom(address, _session, callback) {
+			senders.push(address.address);
+			callback();
+		},
+		onRcptTo(address, _session, callback) {
+			if (address.address === 'heffalump@gmail.com') {
+				const err = new Error('no such user');
+				(err as never as { responseCode: number }).responseCode = 550;
+				callback(err);
+			} else {
+				callback();
+			}
+		},
+		onData(_stream, _session, callback) {
+			t.fail();
+			callback();
+		},
+	});
+
+	const p = verifyPort++;
+	await new Promise<void>((resolve) => server.listen(p, resolve));
+	const statuses = await new SMTPClient({ port: p }).verifyRecipients(
+		[
+			'pooh@gmail.com',
+			'heffalump@gmail.com',
+			'pooh@gmail.com',
+			'piglet@gmail.com',
+		],
+		{ batchSize: 2 }
+	);
+	server.close();
+
+	t.deepEqual(
+		statuses.map(({ address, accepted, command, code }) => [
+			address,
+			accepted,
+			command,
+			code,
+		]),
+		[
+			['pooh@gmail.com', true, 'RCPT', 250],
+			['heffalump@gmail.com', false, 'RCPT', 550],
+			['pooh@gmail.com', true, 'RCPT', 250],
+			['piglet@gmail.com', true, 'RCPT', 250],
+		]
+	);
+	t.is(statuses[1].message, 'no such user');
+	// two transactions, from the null sender
+	t.deepEqual(senders, ['', '']);
+});
+
+test('client verifies the recipients a server refused as too many in another transaction', async (t) => {
+	const transactions: string[][] = [];
+	const server = new SMTPServer({
+		authOptional: true,
+		hideSTARTTLS: true,
+		// the unauthenticated session would otherwise end after ten commands
+		disabledCommands: ['AUTH'],
+		onMailFrom(_address, _session, callback) {
+			transactions.push([]);
+			callback();
+		},
+		onRcptTo(address, session, callback) {
+			if (session.envelope.rcptTo.length === 2) {
+				const err = new Error('4.5.3 too many recipients');
+				(err as never as { responseCode: number }).responseCode = 452;
+				callback(err);
+			} else {
+				transactions[transactions.length - 1].push(address.address);
+				callback();
+			}
+		},
+	});
+
+	const p = verifyPort++;
+	await new Promise<void>((resolve) => server.listen(p, resolve));
+	const addresses = ['a@x.y', 'b@x.y', 'c@x.y', 'd@x.y', 'e@x.y'];
+	const statuses = await new SMTPClient({ port: p }).verifyRecipients(
+		addresses
+	);
+	server.close();
+
+	t.deepEqual(
+		statuses.map(({ address, accepted, code }) => [address, accepted, code]),
+		addresses.map((address) => [address, true, 250])
+	);
+	t.deepEqual(transactions, [
+		['a@x.y', 'b@x.y'],
+		['c@x.y', 'd@x.y'],
+		['e@x.y'],
+	]);
+});
+
+test('client verifies recipients one transaction at a time, or with VRFY', async (t) => {
+	const { server: verifyServer, commands } = createExtensionServer([]);
+
+	const p = verifyPort++;
+	await new Promise<void>((resolve) => verifyServer.listen(p, resolve));
+	const client = new SMTPClient({ port: p });
+	const [rcpt] = await client.verifyRecipients(['pooh@gmail.com'], {
+		from: 'piglet@gmail.com',
+	});
+	const [vrfy] = await client.verifyRecipients(['pooh@gmail.com'], {
+		vrfy: true,
+	});
+	verifyServer.close();
+
+	t.like(rcpt, { accepted: true, command: 'RCPT', code: 250, message: 'OK' });
+	t.like(vrfy, { accepted: true, command: 'VRFY', code: 250 });
+	t.deepEqual(
+		commands.map((command) => command.split(' ')[0].toUpperCase()),
+		['EHLO', 'MAIL', 'RCPT', 'RSET', 'QUIT', 'EHLO', 'VRFY', 'QUIT']
+	);
+	t.is(commands[1], 'mail FROM:<piglet@gmail.com>');
+});
+
+test('client stuffs dots and normalizes line endings in the message body', async (t) => {
+	let received = '';
+	const server = new SMTPServer({
+		authOptional: true,
+		hideSTARTTLS: true,
+		onData(stream, _session, callback) {
+			stream.on('data', (data: Buffer) => (received += data.toString()));
+			stream.on('end', callback);
+		},
+	});
+
+	const p = dataPort++;
+	await new Promise<void>((resolve) => server.listen(p, resolve));
+	await t.notThrowsAsync(
+		new SMTPClient({ port: p }).sendAsync({
+			subject: 'this is a test TEXT message from emailjs',
+			from: 'piglet@gmail.com',
+			to: 'pooh@gmail.com',
+			text: 'the first line\n.\n.the end?\rno, the end.\r\n',
+		})
+	);
+	server.close();
+
+	// the server removes the dots added to the lines
+	t.true(
+		received.includes(
+			'\r\n\r\nthe first line\r\n.\r\n.the end?\r\nno, the end.\r\n'
+		),
+		received
+	);
+	t.false(/[^\r]\n|\r[^\n]/.test(received));
+});
+
+/**
+ * sends an 8mb attachment to a server that stops reading once the message begins, until it is released
+ *
+ * @param {string[]} extensions the extensions to advertise in the EHLO reply
+ * @returns {Promise<{ sent: Promise<Message>, release: function(): { buffered: number, read: number }, close: function(): void, messages: Buffer[] }>} the send, and how to release the server
+ */
+async function sendWhileStalled(extensions: string[]) {
+	const p = dataPort++;
+	const path = join(tmpdir(), `emailjs-backpressure-${process.pid}-${p}.bin`);
+	writeFileSync(path, Buffer.alloc(8 * 1024 * 1024, 'honey'));
+	const attachment = createReadStream(path);
+
+	const { server, messages } = createExtensionServer(extensions);
+	const held: (() => void)[] = [];
+	let stalled = false;
+	let released = false;
+	let duplex: Duplex | null = null;
+
+	await new Promise<void>((resolve) => server.listen(p, resolve));
+	const socketFactory = (options: SMTPSocketFactoryOptions) => {
+		const socket = createConnection(options.port, options.host);
+		const stream = new Duplex({
+			read() {
+				socket.resume();
+			},
+			write(chunk: Buffer, encoding, callback) {
+				if (stalled) {
+					held.push(() => socket.write(chunk, encoding, callback));
+				} else {
+					// the message follows the DATA or first BDAT command, and is held until released
+					stalled =
+						released === false &&
+						/^(data|BDAT \d+)\r\n$/.test(chunk.toString());
+					socket.write(chunk, encoding, callback);
+				}
+			},
+			final(callback) {
+				socket.end(callback);
+			},
+		});
+		socket.on('data', (data) => stream.push(data) || socket.pause());
+		socket.on('end', () => stream.push(null));
+		duplex = stream;
+		return stream;
+	};
+
+	const sent = new SMTPClient({ port: p, socketFactory }).sendAsync(
+		new Message({
+			subject: 'this is a test TEXT message from emailjs',
+			from: 'piglet@gmail.com',
+			to: 'pooh@gmail.com',
+			text: "It is hard to be brave when you're only a Very Small Animal.",
+			attachment: {
+				stream: attachment,
+				type: 'application/octet-stream',
+				name: 'jar',
+			},
+		})
+	);
+
+	await new Promise((resolve) => setTimeout(resolve, 500));
+
+	return {
+		sent,
+		messages,
+		release() {
+			// what the client wrote, and read of the attachment, while the server was not reading
+			const buffered = (duplex as Duplex | null)?.writableLength ?? 0;
+			const read = attachment.bytesRead;
+			stalled = false;
+			released = true;
+			held.splice(0).forEach((write) => write());
+			return { buffered, read };
+		},
+		close() {
+			server.close();
+			unlinkSync(path);
+		},
+	};
+}
+
+test('client reads no more of the message than the socket is ready to send', async (t) => {
+	const { sent, messages, release, close } = await sendWhileStalled([]);
+	const { buffered, read } = release();
+
+	await t.notThrowsAsync(sent);
+	close();
+
+	t.true(buffered > 0);
+	t.true(buffered < 1024 * 1024, `${buffered} bytes`);
+	t.true(read < 1024 * 1024, `${read} bytes`);
+	t.true(messages[0].length > (8 * 1024 * 1024 * 4) / 3);
+});
+
+test('client reads no more of the message than the server is ready to receive with BDAT', async (t) => {
+	const { sent, messages, release, close } = await sendWhileStalled([
+		'CHUNKING',
+	]);
+	const { read } = release();
+
+	await t.notThrowsAsync(sent);
+	close();
+
+	t.true(read < 1024 * 1024, `${read} bytes`);
+	t.true(messages[0].length > (8 * 1024 * 1024 * 4) / 3);
+});
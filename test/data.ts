@@ -0,0 +1,60 @@
+import test from 'ava';
+
+import { SMTPDataEncoder, SMTPErrorStates } from '../email.js';
+import type { SMTPDataEncoderOptions, SMTPError } from '../email.js';
+
+function encode(
+	chunks: (string | Buffer)[],
+	options: Partial<SMTPDataEncoderOptions> = {}
+) {
+	const encoder = new SMTPDataEncoder(options);
+	const output: Buffer[] = [];
+
+	return new Promise<string>((resolve, reject) => {
+		encoder.on('data', (data: Buffer) => output.push(data));
+		encoder.on('end', () => resolve(Buffer.concat(output).toString()));
+		encoder.on('error', reject);
+		chunks.forEach((chunk) => encoder.write(chunk));
+		encoder.end();
+	});
+}
+
+test('normalizes line endings and stuffs dots across chunks', async (t) => {
+	t.is(
+		await encode(['a\r', '\nb\n', '.c\r', Buffer.from('d\r')]),
+		'a\r\nb\r\n..c\r\nd\r\n'
+	);
+	t.is(
+		await encode(['.', '\r\n', '.\r\n', 'x.y\r\r\n..z']),
+		'..\r\n..\r\nx.y\r\n\r\n...z'
+	);
+});
+
+test('wraps lines longer than 998 octets', async (t) => {
+	const lines = (await encode(['x'.repeat(1500), 'x'.repeat(500)])).split(
+		'\r\n'
+	);
+	t.deepEqual(
+		lines.map((line) => line.length),
+		[998, 998, 4]
+	);
+
+	// the two bytes of the last character would not fit on the line
+	const [first, second] = (await encode([`${'x'.repeat(997)}é.`])).split(
+		'\r\n'
+	);
+	t.is(first, 'x'.repeat(997));
+	t.is(second, 'é.');
+});
+
+test('rejects lines longer than 998 octets', async (t) => {
+	t.is(
+		await encode([`${'x'.repeat(998)}\r\n`], { longLines: 'reject' }),
+		`${'x'.repeat(998)}\r\n`
+	);
+
+	const err = await t.throwsAsync<SMTPError>(
+		encode(['x'.repeat(999)], { longLines: 'reject' })
+	);
+	t.is(err?.code, SMTPErrorStates.LINETOOLONG);
+});
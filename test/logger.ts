@@ -0,0 +1,162 @@
+import test from 'ava';
+import { SMTPServer } from 'smtp-server';
+
+import {
+	adaptPinoLogger,
+	adaptWinstonLogger,
+	Message,
+	SMTPClient,
+	SMTPConnection,
+} from '../email.js';
+import type {
+	SMTPConnectionOptions,
+	SMTPLogFields,
+	SMTPLogger,
+	SMTPLogLevel,
+} from '../email.js';
+
+let port = 5544;
+
+type Entry = { level: SMTPLogLevel; message: string; fields: SMTPLogFields };
+
+function createRecorder(entries: Entry[]): SMTPLogger {
+	const record =
+		(level: SMTPLogLevel) => (message: string, fields: SMTPLogFields) =>
+			entries.push({ level, message, fields });
+	return {
+		trace: record('trace'),
+		debug: record('debug'),
+		info: record('info'),
+		warn: record('warn'),
+		error: record('error'),
+	};
+}
+
+function send(options: Partial<SMTPConnectionOptions>) {
+	const server = new SMTPServer({
+		authMethods: ['PLAIN'],
+		authOptional: true,
+		hideSTARTTLS: true,
+		onAuth(auth, _session, callback) {
+			callback(null, { user: auth.username });
+		},
+	});
+	const serverPort = port++;
+	const client = new SMTPClient({ port: serverPort, ...options });
+	const message = new Message({
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	});
+
+	return new Promise<Message>((resolve, reject) => {
+		server.listen(serverPort, () => {
+			client.send(message, (err) => {
+				server.close();
+				if (err) {
+					reject(err);
+				} else {
+					resolve(message);
+				}
+			});
+		});
+	});
+}
+
+test('logs structured entries for each connection', async (t) => {
+	const entries: Entry[] = [];
+	await send({ logger: createRecorder(entries) });
+
+	const [connecting] = entries.filter(
+		({ message }) => message === 'connecting'
+	);
+	t.is(connecting.level, 'info');
+	t.is(connecting.fields.host, 'localhost');
+	t.is(typeof connecting.fields.port, 'number');
+	t.regex(String(connecting.fields.connectionId), /^[0-9a-f]{8}$/);
+
+	const [rcpt] = entries.filter(({ fields }) => fields.command === 'RCPT');
+	t.is(rcpt.level, 'trace');
+	t.is(rcpt.message, 'client: RCPT TO:<pooh@gmail.com>');
+	t.is(rcpt.fields.connectionId, connecting.fields.connectionId);
+});
+
+test('logs the queue events of a message', async (t) => {
+	const entries: Entry[] = [];
+	const message = await send({ logger: createRecorder(entries) });
+	const events = entries
+		.filter(({ fields }) => fields.messageId === message.header['message-id'])
+		.map(({ level, message }) => `${level} ${message}`);
+
+	t.deepEqual(events, [
+		'debug message queued',
+		'info sending message',
+		'info message sent',
+	]);
+});
+
+test('only passes entries of the log level and above', async (t) => {
+	const entries: Entry[] = [];
+	await send({ logger: createRecorder(entries), logLevel: 'info' });
+
+	t.true(entries.length > 0);
+	t.true(
+		entries.every(({ level }) => ['info', 'warn', 'error'].includes(level))
+	);
+});
+
+test('does not log credentials', async (t) => {
+	const entries: Entry[] = [];
+	await send({
+		user: 'pooh',
+		password: 'honey',
+		logger: createRecorder(entries),
+	});
+
+	const credentials = Buffer.from('\u0000pooh\u0000honey').toString('base64');
+	t.false(
+		entries.some(({ message }) =>
+			[credentials, 'honey'].some((secret) => message.includes(secret))
+		)
+	);
+	t.true(
+		entries.some(({ message }) => message === 'client: AUTH PLAIN [redacted]')
+	);
+});
+
+test('debugging is turned on per instance', async (t) => {
+	const debugged = new SMTPConnection();
+	const quiet = new SMTPConnection();
+	debugged.debug(1);
+
+	t.is(Reflect.get(debugged, 'logger'), Reflect.get(debugged, 'consoleLogger'));
+	t.is(Reflect.get(quiet, 'logger'), null);
+
+	debugged.debug(0);
+	t.is(Reflect.get(debugged, 'logger'), null);
+});
+
+test('adapts pino and winston style loggers', async (t) => {
+	const calls: unknown[][] = [];
+	const pino = {
+		trace: (...args: unknown[]) => calls.push(['trace', ...args]),
+		debug: (...args: unknown[]) => calls.push(['debug', ...args]),
+		info: (...args: unknown[]) => calls.push(['info', ...args]),
+		warn: (...args: unknown[]) => calls.push(['warn', ...args]),
+		error: (...args: unknown[]) => calls.push(['error', ...args]),
+	};
+	const winston = {
+		log: (...args: unknown[]) => calls.push(['log', ...args]),
+	};
+
+	adaptPinoLogger(pino).warn('message failed', { command: 'RCPT' });
+	adaptWinstonLogger(winston).trace('client: noop', { command: 'NOOP' });
+	adaptWinstonLogger(winston).error('could not connect', {});
+
+	t.deepEqual(calls, [
+		['warn', { command: 'RCPT' }, 'message failed'],
+		['log', 'silly', 'client: noop', { command: 'NOOP' }],
+		['log', 'error', 'could not connect', {}],
+	]);
+});
@@ -453,3 +453,49 @@ test('message validation succeeds with only `bcc` recipient header (array)', asy
 	t.true(isValid);
 	t.is(validationError, undefined);
 });
+
+test('message declares utf-8 text as 8bit', async (t) => {
+	const message = new Message({
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: 'Pooh was sitting in his house one day, counting his pots of honey 🍯',
+	});
+
+	t.regex(await message.readAsync(), /^Content-Transfer-Encoding: 8bit\r$/m);
+	t.regex(
+		await message.readAsync({ eightBit: false }),
+		/^Content-Transfer-Encoding: base64\r$/m
+	);
+});
+
+test('message encodes utf-8 headers for servers without SMTPUTF8', async (t) => {
+	const message = new Message({
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@bücher.example',
+		'x-honey': 'hünig',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+	});
+
+	const raw = await message.readAsync();
+	t.regex(raw, /^To: pooh@bücher\.example\r$/m);
+	t.regex(raw, /^X-Honey: hünig\r$/m);
+
+	const encoded = await message.readAsync({ utf8: false });
+	t.regex(encoded, /^To: pooh@xn--bcher-kva\.example\r$/m);
+	t.regex(encoded, /^X-Honey: =\?UTF-8\?Q\?h=C3=BCnig\?=\r$/m);
+});
+
+test('message does not output delivery status notification options as a header', async (t) => {
+	const message = new Message({
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to: 'pooh@gmail.com',
+		text: "It is hard to be brave when you're only a Very Small Animal.",
+		dsn: { ret: 'HDRS', notify: ['FAILURE'] },
+	});
+
+	t.deepEqual(message.dsn, { ret: 'HDRS', notify: ['FAILURE'] });
+	t.notRegex(await message.readAsync(), /^Dsn:/im);
+});
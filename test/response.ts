@@ -0,0 +1,76 @@
+import test from 'ava';
+import { SMTPError, SMTPReplyParser } from '../email.js';
+
+test('parses a single line reply', async (t) => {
+	const parser = new SMTPReplyParser();
+	t.deepEqual(parser.push('220 smtp.example.com ESMTP ready\r\n'), [
+		{
+			code: 220,
+			enhancedCode: null,
+			lines: ['smtp.example.com ESMTP ready'],
+			message: 'smtp.example.com ESMTP ready',
+			data: '220 smtp.example.com ESMTP ready\n',
+		},
+	]);
+});
+
+test('parses a multi-line reply into its text lines', async (t) => {
+	const parser = new SMTPReplyParser();
+	const [reply] = parser.push(
+		'250-smtp.example.com\r\n250-SIZE 1000\r\n250-8BITMIME\r\n250 HELP\r\n'
+	);
+	t.is(reply.code, 250);
+	t.deepEqual(reply.lines, [
+		'smtp.example.com',
+		'SIZE 1000',
+		'8BITMIME',
+		'HELP',
+	]);
+	t.is(
+		reply.data,
+		'250-smtp.example.com\n250-SIZE 1000\n250-8BITMIME\n250 HELP\n'
+	);
+});
+
+test('assembles replies split across chunks', async (t) => {
+	const parser = new SMTPReplyParser();
+	const reply = Buffer.from('250-first\r\n250-ünïcödé\r\n250 last\r\n');
+
+	for (let i = 0; i < reply.length - 1; i++) {
+		t.deepEqual(parser.push(reply.subarray(i, i + 1)), []);
+	}
+
+	const [{ lines }] = parser.push(reply.subarray(reply.length - 1));
+	t.deepEqual(lines, ['first', 'ünïcödé', 'last']);
+});
+
+test('returns every reply completed by a chunk', async (t) => {
+	const parser = new SMTPReplyParser();
+	const replies = parser.push(
+		'250 2.1.0 sender ok\r\n550-5.1.1 no such\r\n550 5.1.1 user\r\n354 go'
+	);
+	t.deepEqual(
+		replies.map(({ code, enhancedCode }) => [code, enhancedCode]),
+		[
+			[250, '2.1.0'],
+			[550, '5.1.1'],
+		]
+	);
+	t.deepEqual(parser.push(' ahead\r\n')[0]?.lines, ['go ahead']);
+});
+
+test('rejects inconsistent and malformed replies', async (t) => {
+	const parser = new SMTPReplyParser();
+	const inconsistent = t.throws<SMTPError>(() =>
+		parser.push('250-first\r\n251 second\r\n')
+	);
+	t.is(
+		inconsistent?.message,
+		'inconsistent reply codes from server: expected 250 but got 251'
+	);
+
+	const malformed = t.throws<SMTPError>(() => parser.push('hello\r\n'));
+	t.is(malformed?.message, 'malformed reply from server: hello');
+
+	t.deepEqual(parser.push('250 OK\r\n')[0]?.lines, ['OK']);
+});
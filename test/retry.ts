@@ -0,0 +1,48 @@
+import test from 'ava';
+
+import { createRetryPolicy, matchesRetry, retryDelay } from '../email.js';
+import type { SMTPReply } from '../email.js';
+
+function reply(code: number, enhancedCode: string | null, text: string) {
+	return {
+		code,
+		enhancedCode,
+		lines: [text],
+		message: text,
+		data: `${code} ${enhancedCode ?? ''} ${text}`,
+	} as SMTPReply;
+}
+
+test('matches replies by code, enhanced code and text', async (t) => {
+	const policy = createRetryPolicy({
+		match: [{ enhancedCode: /^4\.7\./ }, { code: [421], text: 'Too Many' }],
+	});
+
+	t.true(matchesRetry(policy, reply(450, '4.7.1', 'come back later')));
+	t.true(matchesRetry(policy, reply(421, null, 'too many connections')));
+	t.false(matchesRetry(policy, reply(421, null, 'shutting down')));
+	t.false(matchesRetry(policy, reply(550, '5.7.1', 'rejected')));
+});
+
+test('keeps the default greylist policy', async (t) => {
+	const policy = createRetryPolicy();
+
+	t.is(policy.maxAttempts, 2);
+	t.true(matchesRetry(policy, reply(451, null, 'Greylisted, see you soon')));
+	t.false(matchesRetry(policy, reply(451, null, 'local error')));
+	t.is(retryDelay(policy, 1), 300);
+});
+
+test('backs off up to the longest delay, with jitter', async (t) => {
+	const policy = createRetryPolicy({ delay: 1000, backoff: 3, maxDelay: 5000 });
+	t.deepEqual(
+		[1, 2, 3].map((retry) => retryDelay(policy, retry)),
+		[1000, 3000, 5000]
+	);
+
+	const jittered = createRetryPolicy({ delay: 1000, jitter: 0.5 });
+	for (let i = 0; i < 20; i++) {
+		const delay = retryDelay(jittered, 1);
+		t.true(delay >= 500 && delay <= 1500, String(delay));
+	}
+});
@@ -0,0 +1,176 @@
+import test from 'ava';
+import { SMTPServer } from 'smtp-server';
+
+import {
+	Message,
+	SMTPClient,
+	SMTPErrorStates,
+	SMTPTranscript,
+} from '../email.js';
+import type {
+	SMTPConnectionOptions,
+	SMTPError,
+	SMTPTranscriptEntry,
+} from '../email.js';
+
+let port = 5444;
+
+function send(
+	options: Partial<SMTPConnectionOptions>,
+	{
+		to = 'pooh@gmail.com',
+		text = "It is hard to be brave when you're only a Very Small Animal.",
+	} = {}
+) {
+	const server = new SMTPServer({
+		authMethods: ['PLAIN', 'LOGIN'],
+		authOptional: true,
+		hideSTARTTLS: true,
+		onAuth(auth, _session, callback) {
+			if (auth.username === 'pooh' && auth.password === 'honey') {
+				callback(null, { user: 'pooh' });
+			} else {
+				callback(new Error('invalid user or pass'));
+			}
+		},
+		onRcptTo(address, _session, callback) {
+			if (address.address === 'heffalump@gmail.com') {
+				callback(new Error('no such user'));
+			} else {
+				callback();
+			}
+		},
+		onData(stream, _session, callback) {
+			stream.on('data', () => undefined);
+			stream.on('end', callback);
+		},
+	});
+	const serverPort = port++;
+	const client = new SMTPClient({ port: serverPort, ...options });
+	const message = new Message({
+		subject: 'this is a test TEXT message from emailjs',
+		from: 'piglet@gmail.com',
+		to,
+		text,
+	});
+
+	return new Promise<SMTPTranscriptEntry[]>((resolve, reject) => {
+		server.listen(serverPort, () => {
+			client.send(message, (err) => {
+				const transcript = client.smtp.transcript();
+				server.close();
+				if (err) {
+					reject(err);
+				} else {
+					resolve(transcript ?? []);
+				}
+			});
+		});
+	});
+}
+
+test('records the conversation of a successful send', async (t) => {
+	const transcript = await send({
+		user: 'pooh',
+		password: 'honey',
+		transcript: true,
+	});
+	const lines = transcript.map(({ direction, line }) => `${direction} ${line}`);
+
+	t.regex(lines[0], /^server 220 /);
+	t.true(lines.includes('client mail FROM:<piglet@gmail.com>'));
+	t.true(lines.includes('client RCPT TO:<pooh@gmail.com>'));
+	t.true(lines.some((line) => line.startsWith('client Subject: ')));
+	t.true(lines.includes('client .'));
+	t.true(transcript.every(({ timestamp }) => timestamp instanceof Date));
+});
+
+test('hides the credentials of an authentication exchange', async (t) => {
+	const secrets = [
+		'honey',
+		Buffer.from('\u0000pooh\u0000honey').toString('base64'),
+		Buffer.from('pooh').toString('base64'),
+		Buffer.from('honey').toString('base64'),
+	];
+
+	const plain = await send({
+		user: 'pooh',
+		password: 'honey',
+		authentication: ['PLAIN'],
+		transcript: true,
+	});
+	const login = await send({
+		user: 'pooh',
+		password: 'honey',
+		authentication: ['LOGIN'],
+		transcript: true,
+	});
+
+	for (const { line } of [...plain, ...login]) {
+		t.false(
+			secrets.some((secret) => line.includes(secret)),
+			line
+		);
+	}
+
+	t.deepEqual(
+		plain
+			.filter(({ direction }) => direction === 'client')
+			.map(({ line }) => line)
+			.filter((line) => /^(AUTH|\[)/.test(line)),
+		['AUTH PLAIN [redacted]']
+	);
+	t.deepEqual(
+		login
+			.filter(({ direction }) => direction === 'client')
+			.map(({ line }) => line)
+			.filter((line) => /^(AUTH|\[)/.test(line)),
+		['AUTH LOGIN', '[redacted]', '[redacted]']
+	);
+	// commands after the exchange are recorded again
+	t.true(login.some(({ line }) => line.startsWith('mail FROM')));
+});
+
+test('limits the recorded bytes of the message body', async (t) => {
+	const transcript = await send(
+		{ transcript: { bodyLimit: 64 } },
+		{ text: 'z'.repeat(4096) }
+	);
+	const [summary] = transcript
+		.map(({ line }) => line.match(/^\[(\d+) more bytes of the message\]$/))
+		.filter((match): match is RegExpMatchArray => match != null);
+
+	t.truthy(summary);
+	t.true(Number(summary?.[1]) > 4096);
+	t.false(transcript.some(({ line }) => line.includes('z'.repeat(64))));
+});
+
+test('attaches the transcript to the error of a failed send', async (t) => {
+	const err = await t.throwsAsync<SMTPError>(
+		send({ transcript: true }, { to: 'heffalump@gmail.com' })
+	);
+	t.is(err?.code, SMTPErrorStates.BADRESPONSE);
+	t.like(
+		err?.transcript?.find(({ line }) => line.startsWith('550')),
+		{
+			direction: 'server',
+		}
+	);
+
+	const unrecorded = await t.throwsAsync<SMTPError>(
+		send({}, { to: 'heffalump@gmail.com' })
+	);
+	t.is(unrecorded?.transcript, null);
+});
+
+test('assembles message body lines split across writes', async (t) => {
+	const transcript = new SMTPTranscript({ bodyLimit: 12 });
+	transcript.body('first li');
+	transcript.body('ne\r\nsecond line\r\n');
+	transcript.client('.\r\n');
+
+	t.deepEqual(
+		transcript.lines().map(({ line }) => line),
+		['first line', '[13 more bytes of the message]', '.']
+	);
+});